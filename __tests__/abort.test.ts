@@ -0,0 +1,150 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { getAction } from '../src/useActions';
+import { getLoadingState } from '../src/loadingState';
+import { useGetList } from '../src/useGetList';
+import { useGet } from '../src/useGet';
+import { renderHook, act } from '@testing-library/react';
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+// Every call returns a promise the test settles by hand. Aborting the
+// request's signal rejects it, like axios does.
+const createControlledAxios = () => {
+  const calls: { config: any; resolve: (data: any) => void }[] = [];
+  const axios = jest.fn((config: any) => new Promise((resolve, reject) => {
+    calls.push({ config, resolve: (data) => resolve({ data }) });
+    config.signal?.addEventListener('abort', () => reject(Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' })));
+  }));
+  return { axios, calls };
+};
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+const createStore = (axios: any, actions: object = { getList: true, get: true, update: true }) =>
+  createStoreRegistry<{ items: Item }>()('items', {
+    axios: axios as any,
+    route: '/items',
+    actions,
+  });
+
+describe('aborting requests', () => {
+  let consoleSpy: jest.SpyInstance;
+  beforeEach(() => { consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {}); });
+  afterEach(() => consoleSpy.mockRestore());
+
+  it('should abort every running request of an action', async () => {
+    const { axios, calls } = createControlledAxios();
+    const onError = jest.fn();
+    const store = createStore(axios, { getList: { onError } });
+    const getList = getAction(store, 'getList');
+
+    const main = getList();
+    const query = getList({ params: { q: 'a' }, queryKey: 'a' });
+    await flush();
+    getList.abort();
+
+    expect(calls[0].config.signal.aborted).toBe(true);
+    expect(calls[1].config.signal.aborted).toBe(true);
+    expect(getLoadingState(store, 'getList').isLoading).toBe(false);
+    expect(await main).toBeUndefined();
+    expect(await query).toBeUndefined();
+    expect(store.getState().data).toBeNull();
+    expect(getLoadingState(store, 'getList').error).toBeNull();
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should abort on the caller signal unless another caller shares the request', async () => {
+    const { axios, calls } = createControlledAxios();
+    const store = createStore(axios);
+    const getList = getAction(store, 'getList');
+
+    const first = new AbortController();
+    const second = new AbortController();
+    getList({ signal: first.signal });
+    getList({ signal: second.signal });
+    await flush();
+    first.abort();
+    expect(calls[0].config.signal.aborted).toBe(false);
+    second.abort();
+    expect(calls[0].config.signal.aborted).toBe(true);
+
+    const third = new AbortController();
+    const promise = getList({ signal: third.signal });
+    getList();
+    await flush();
+    third.abort();
+    expect(calls[1].config.signal.aborted).toBe(false);
+    calls[1].resolve([{ id: 1, name: 'One' }]);
+    expect(await promise).toEqual([{ id: 1, name: 'One' }]);
+  });
+
+  it('should roll back an aborted optimistic update', async () => {
+    const { axios } = createControlledAxios();
+    const store = createStore(axios, { update: { optimistic: true } });
+    store.setList([{ id: 1, name: 'One' }]);
+    const update = getAction(store, 'update');
+
+    const promise = update({ id: 1, name: 'Changed' });
+    await flush();
+    expect(store.getState().data!.get('1')!.name).toBe('Changed');
+    update.abort();
+    await promise;
+    expect(store.getState().data!.get('1')!.name).toBe('One');
+  });
+
+  it('should discard responses older than the last one written', async () => {
+    const { axios, calls } = createControlledAxios();
+    const store = createStore(axios, { getList: { concurrency: 'parallel' } });
+    const getList = getAction(store, 'getList');
+
+    const older = getList({ params: { q: 'o' } });
+    const newer = getList({ params: { q: 'on' } });
+    await flush();
+    calls[1].resolve([{ id: 1, name: 'One' }]);
+    expect(await newer).toEqual([{ id: 1, name: 'One' }]);
+    calls[0].resolve([{ id: 2, name: 'Two' }]);
+    expect(await older).toBeUndefined();
+
+    expect(Array.from(store.getState().data!.keys())).toEqual(['1']);
+    expect(getLoadingState(store, 'getList').isLoading).toBe(false);
+  });
+
+  it('should abort auto-fetches of hooks when they unmount', async () => {
+    const { axios, calls } = createControlledAxios();
+    const store = createStore(axios);
+
+    const first = renderHook(() => useGetList(store));
+    const second = renderHook(() => useGetList(store));
+    await act(flush);
+    expect(axios).toHaveBeenCalledTimes(1);
+
+    first.unmount();
+    expect(calls[0].config.signal.aborted).toBe(false);
+    second.unmount();
+    expect(calls[0].config.signal.aborted).toBe(true);
+    expect(getLoadingState(store, 'getList').isLoading).toBe(false);
+
+    // Mounting again fetches again
+    const third = renderHook(() => useGetList(store));
+    await act(flush);
+    expect(axios).toHaveBeenCalledTimes(2);
+    await act(async () => { calls[1].resolve([{ id: 1, name: 'One' }]); await flush(); });
+    expect(third.result.current[0]).toEqual([{ id: 1, name: 'One' }]);
+  });
+
+  it('should abort the fetch of the previous id', async () => {
+    const { axios, calls } = createControlledAxios();
+    const store = createStore(axios);
+
+    const { rerender } = renderHook(({ id }) => useGet(store, id), { initialProps: { id: 1 } });
+    await act(flush);
+    rerender({ id: 2 });
+    await act(flush);
+
+    expect(calls[0].config.signal.aborted).toBe(true);
+    expect(calls[1].config.url).toBe('/items/2');
+  });
+});
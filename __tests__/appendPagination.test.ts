@@ -0,0 +1,147 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { usePagination, loadMore } from '../src/usePagination';
+import { useGetList } from '../src/useGetList';
+import { useCrud } from '../src/useCrud';
+import { getAction } from '../src/useActions';
+import { renderHook, act } from '@testing-library/react';
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+const all: Item[] = [1, 2, 3, 4, 5].map((id) => ({ id, name: `Item ${id}` }));
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+// Pages of 2 from `all`, by offset/limit params
+const createAxios = () => jest.fn((config: any) => Promise.resolve({
+  data: {
+    results: all.slice(config.params.offset, config.params.offset + config.params.limit),
+    count: all.length,
+  },
+}));
+
+const createStore = (axios: any, mode: 'append' | 'replace' = 'append') =>
+  createStoreRegistry<{ items: Item }>()('items', {
+    axios: axios as any,
+    route: '/items',
+    actions: { getList: true },
+    pagination: {
+      limit: 2,
+      mode,
+      prepare: (data: any) => ({ count: data.count }),
+      prepareParams: ({ offset, limit }: any) => ({ offset, limit }),
+      extractList: (data: any) => data.results,
+    },
+  });
+
+describe('append pagination', () => {
+  it('should add the next page to the list', async () => {
+    const axios = createAxios();
+    const store = createStore(axios);
+
+    const { result } = renderHook(() => ({
+      list: useGetList(store),
+      pages: usePagination(store),
+    }));
+    await act(async () => { await flush(); });
+    expect(result.current.list[0]!.map((item) => item.id)).toEqual([1, 2]);
+    expect(result.current.pages.hasMore).toBe(true);
+
+    await act(async () => { await result.current.pages.loadMore(); });
+    expect(axios).toHaveBeenLastCalledWith(expect.objectContaining({ params: { offset: 2, limit: 2 } }));
+    expect(result.current.list[0]!.map((item) => item.id)).toEqual([1, 2, 3, 4]);
+    expect(result.current.pages.pagination).toEqual({ count: 5, offset: 2, limit: 2 });
+
+    await act(async () => { await result.current.pages.loadMore(); });
+    expect(result.current.list[0]!.map((item) => item.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(result.current.pages.hasMore).toBe(false);
+
+    // No more pages
+    await act(async () => { await result.current.pages.loadMore(); });
+    expect(axios).toHaveBeenCalledTimes(3);
+  });
+
+  it('should start a fresh list when the offset is back at 0', async () => {
+    const store = createStore(createAxios());
+    const getList = getAction(store, 'getList');
+
+    await getList();
+    await loadMore(store);
+    expect(store.getState().data!.size).toBe(4);
+
+    store.setPagination({ offset: 0 });
+    await getList();
+    expect(Array.from(store.getState().data!.keys())).toEqual(['1', '2']);
+  });
+
+  it('should not add appended items to the count', async () => {
+    const store = createStoreRegistry<{ items: Item }>()('items', {
+      axios: createAxios() as any,
+      route: '/items',
+      actions: { getList: true },
+      pagination: {
+        limit: 2,
+        mode: 'append',
+        prepareParams: ({ offset, limit }: any) => ({ offset, limit }),
+        extractList: (data: any) => data.results,
+      },
+    });
+    store.setPagination({ count: 5 });
+
+    await getAction(store, 'getList')();
+    await loadMore(store);
+    expect(store.getState().data!.size).toBe(4);
+    expect(store.getState().pagination.count).toBe(5);
+  });
+
+  it('should replace the list in replace mode', async () => {
+    const store = createStore(createAxios(), 'replace');
+
+    await getAction(store, 'getList')();
+    await loadMore(store);
+    expect(Array.from(store.getState().data!.keys())).toEqual(['3', '4']);
+  });
+
+  it('should restore the offset when loading more fails', async () => {
+    const axios = createAxios();
+    const store = createStore(axios);
+    await getAction(store, 'getList')();
+
+    axios.mockImplementationOnce(() => Promise.reject(new Error('Network')));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await loadMore(store);
+    (console.error as jest.Mock).mockRestore();
+
+    expect(store.getState().pagination.offset).toBe(0);
+    expect(store.getState().data!.size).toBe(2);
+  });
+
+  it('should append to query lists', async () => {
+    const axios = createAxios();
+    const store = createStore(axios);
+
+    const { result } = renderHook(() => ({
+      list: useGetList(store, { params: { q: 'item' } }),
+      pages: usePagination(store, { params: { q: 'item' } }),
+    }));
+    await act(async () => { await flush(); });
+    await act(async () => { await result.current.pages.loadMore(); });
+
+    expect(axios).toHaveBeenLastCalledWith(expect.objectContaining({ params: { offset: 2, limit: 2, q: 'item' } }));
+    expect(result.current.list[0]!.map((item) => item.id)).toEqual([1, 2, 3, 4]);
+    expect(result.current.pages.hasMore).toBe(true);
+  });
+
+  it('should expose loadMore and hasMore from useCrud', async () => {
+    const store = createStore(createAxios());
+    await getAction(store, 'getList')();
+
+    const { result } = renderHook(() => useCrud(store));
+    expect(result.current.hasMore).toBe(true);
+
+    await act(async () => { await result.current.loadMore(); });
+    expect(store.getState().data!.size).toBe(4);
+  });
+});
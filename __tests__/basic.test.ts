@@ -130,6 +130,8 @@ describe('Basic Store Registry', () => {
       response: undefined,
       id: undefined,
       sequence: 0, // First time setting, sequence starts at 0
+      retryCount: 0,
+      isRetrying: false,
     });
   });
 });
@@ -0,0 +1,221 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { getAction, useActions } from '../src/useActions';
+import { BulkActionError, mapWithLimit } from '../src/bulk';
+import { renderHook, act } from '@testing-library/react';
+
+interface Todo {
+  id: number;
+  title: string;
+  done?: boolean;
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+const createStore = (axios: any, actions: object, pagination = false) =>
+  createStoreRegistry<{ todos: Todo }>()('todos', {
+    axios: axios as any,
+    route: '/todos',
+    actions: { getList: true, ...actions },
+    select: 'multiple',
+    ...pagination ? { pagination: { limit: 10 } } : {},
+  });
+
+const seed = (store: any) => store.setList([
+  { id: 1, title: 'a' },
+  { id: 2, title: 'b' },
+  { id: 3, title: 'c' },
+]);
+
+const ids = (store: any) => Array.from(store.getState().data.keys());
+
+describe('bulk actions', () => {
+  it('should send every item to the bulk route in one request', async () => {
+    const axios = jest.fn((config: any) => Promise.resolve({
+      data: config.data.map((item: any, i: number) => ({ id: 10 + i, ...item })),
+    }));
+    const store = createStore(axios, { bulkCreate: { route: '/todos/bulk' } });
+    seed(store);
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    const result = await getAction(store, 'bulkCreate')([{ title: 'x' }, { title: 'y' }]);
+
+    expect(axios).toHaveBeenCalledTimes(1);
+    expect(axios).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'post',
+      url: '/todos/bulk',
+      data: [{ title: 'x' }, { title: 'y' }],
+    }));
+    expect(result).toEqual({
+      succeeded: [{ id: 10, title: 'x' }, { id: 11, title: 'y' }],
+      failed: [],
+    });
+    expect(ids(store)).toEqual(['1', '2', '3', '10', '11']);
+    // One update for the data, the others for the loading state
+    expect(listener.mock.calls.filter(([s, prev]) => s.data !== prev.data)).toHaveLength(1);
+    expect(store.getState().loadingState.bulkCreate).toMatchObject({ isLoading: false, error: null, response: result });
+  });
+
+  it('should send ids to a bulk delete route', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: null });
+    const store = createStore(axios, { bulkDelete: { route: '/todos/bulk-delete', method: 'post' } }, true);
+    seed(store);
+    store.setPagination({ count: 3 });
+    store.setSelectedIds(['1', '3']);
+
+    await getAction(store, 'bulkDelete')([{ id: 1 }, { id: 3 }]);
+
+    expect(axios).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'post',
+      url: '/todos/bulk-delete',
+      data: [1, 3],
+    }));
+    expect(ids(store)).toEqual(['2']);
+    expect(store.getState().pagination!.count).toBe(1);
+    expect(store.getState().selectedIds).toEqual([]);
+  });
+
+  it('should fan out to the single route with a concurrency limit', async () => {
+    const resolvers: (() => void)[] = [];
+    const axios = jest.fn((config: any) => new Promise((resolve) => {
+      resolvers.push(() => resolve({ data: { ...config.data, done: true } }));
+    }));
+    const store = createStore(axios, { update: true, bulkUpdate: { limit: 2 } });
+    seed(store);
+
+    const promise = getAction(store, 'bulkUpdate')([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    await flush();
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(axios.mock.calls.map(([config]) => [config.method, config.url])).toEqual([
+      ['patch', '/todos/1'],
+      ['patch', '/todos/2'],
+    ]);
+    expect(store.getState().loadingState.bulkUpdate.isLoading).toBe(true);
+
+    resolvers[0]();
+    await flush();
+    expect(axios).toHaveBeenCalledTimes(3);
+    resolvers[1]();
+    resolvers[2]();
+    await promise;
+
+    expect(Array.from(store.getState().data!.values())).toEqual([
+      { id: 1, title: 'a', done: true },
+      { id: 2, title: 'b', done: true },
+      { id: 3, title: 'c', done: true },
+    ]);
+    expect(store.getState().loadingState.bulkUpdate.isLoading).toBe(false);
+  });
+
+  it('should report the items that failed and keep the ones that succeeded', async () => {
+    const failure = Object.assign(new Error('Not found'), { response: { status: 404 } });
+    const axios = jest.fn((config: any) => config.url === '/todos/2'
+      ? Promise.reject(failure)
+      : Promise.resolve({ data: null }));
+    const store = createStore(axios, { bulkDelete: true });
+    seed(store);
+    const onError = jest.fn();
+    const callback = jest.fn();
+
+    const result = await getAction(store, 'bulkDelete')([{ id: 1 }, { id: 2 }, { id: 3 }], { onError, callback });
+
+    expect(result).toEqual({
+      succeeded: [{ id: 1 }, { id: 3 }],
+      failed: [{ item: { id: 2 }, error: failure }],
+    });
+    expect(ids(store)).toEqual(['2']);
+    expect(callback).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(expect.any(BulkActionError));
+    const error = store.getState().loadingState.bulkDelete.error;
+    expect(error).toBeInstanceOf(BulkActionError);
+    expect(error.message).toBe('1 of 3 items failed');
+    expect(error.failed).toEqual(result.failed);
+  });
+
+  it('should fail every item when the bulk request fails', async () => {
+    const axios = jest.fn().mockRejectedValue(new Error('Network'));
+    const store = createStore(axios, { bulkUpdate: { route: '/todos/bulk' } });
+    seed(store);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await getAction(store, 'bulkUpdate')([{ id: 1, done: true }, { id: 2, done: true }]);
+    expect(console.error).toHaveBeenCalledWith(expect.any(BulkActionError));
+    (console.error as jest.Mock).mockRestore();
+
+    expect(result.succeeded).toEqual([]);
+    expect(result.failed.map((f) => f.item)).toEqual([{ id: 1, done: true }, { id: 2, done: true }]);
+    expect(store.getState().data!.get('1')).toEqual({ id: 1, title: 'a' });
+  });
+
+  it('should patch the store with the items sent when the response has no instances', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: { updated: 2 } });
+    const store = createStore(axios, { bulkUpdate: { route: '/todos/bulk' } });
+    seed(store);
+
+    await getAction(store, 'bulkUpdate')([{ id: 1, done: true }, { id: 2, done: true }]);
+    expect(store.getState().data!.get('2')).toEqual({ id: 2, title: 'b', done: true });
+  });
+
+  it('should stop sending items when aborted', async () => {
+    const axios = jest.fn((config: any) => new Promise((resolve, reject) => {
+      config.signal.addEventListener('abort', () => reject(Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' })));
+      if (config.url === '/todos/1') resolve({ data: null });
+    }));
+    const store = createStore(axios, { bulkDelete: { limit: 1 } });
+    seed(store);
+    const controller = new AbortController();
+
+    const promise = getAction(store, 'bulkDelete')([{ id: 1 }, { id: 2 }, { id: 3 }], { signal: controller.signal });
+    await flush();
+    expect(axios).toHaveBeenCalledTimes(2);
+    controller.abort();
+    const result = await promise;
+
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(result.succeeded).toEqual([{ id: 1 }]);
+    expect(result.failed.map((f) => f.item)).toEqual([{ id: 2 }, { id: 3 }]);
+    expect(ids(store)).toEqual(['2', '3']);
+    expect(store.getState().loadingState.bulkDelete).toMatchObject({ isLoading: false, error: null });
+  });
+
+  it('should be returned by useActions when configured', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: [{ id: 4, title: 'd' }] });
+    const store = createStore(axios, { bulkCreate: { route: '/todos/bulk' } });
+
+    const { result } = renderHook(() => useActions(store));
+    expect(result.current.bulkCreate.isLoading).toBe(false);
+    expect('bulkDelete' in result.current).toBe(false);
+
+    await act(async () => { await result.current.bulkCreate([{ title: 'd' }]); });
+    expect(result.current.bulkCreate.response).toEqual({ succeeded: [{ id: 4, title: 'd' }], failed: [] });
+  });
+
+  it('should run at most limit tasks at a time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const results = await mapWithLimit([1, 2, 3, 4, 5], 2, async (n) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await flush();
+      running--;
+      if (n === 4) throw new Error('four');
+      return n * 2;
+    });
+    expect(maxRunning).toBe(2);
+    expect(results.map((r) => r.ok ? r.value : r.error.message)).toEqual([2, 4, 6, 'four', 10]);
+  });
+});
+
+describe('deleteMany', () => {
+  it('should remove the instances and adjust the pagination count', () => {
+    const store = createStore(jest.fn(), {}, true);
+    seed(store);
+    store.setPagination({ count: 30 });
+    store.setSelectedIds(['2', '3']);
+
+    store.deleteMany([2, 3, 99]);
+    expect(ids(store)).toEqual(['1']);
+    expect(store.getState().pagination!.count).toBe(28);
+    expect(store.getState().selectedIds).toEqual([]);
+  });
+});
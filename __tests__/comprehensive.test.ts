@@ -266,6 +266,8 @@ describe('Zustand CRUD Registry', () => {
         response: undefined,
         id: undefined,
         sequence: 0,
+        retryCount: 0,
+        isRetrying: false,
       });
     });
 
@@ -288,6 +290,8 @@ describe('Zustand CRUD Registry', () => {
         response: undefined,
         id: 123,
         sequence: 0, // First time setting, sequence starts at 0
+        retryCount: 0,
+        isRetrying: false,
       });
     });
 
@@ -0,0 +1,372 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { useCrud } from '../src/useCrud';
+import { renderHook, act } from '@testing-library/react';
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+/**
+ * Mock axios where every call returns a promise the test settles by hand.
+ * Aborting the request's signal rejects it, like axios does.
+ */
+const createControlledAxios = () => {
+  const calls: { config: any; resolve: (data: any) => void; reject: (error: any) => void }[] = [];
+  const axios = jest.fn((config: any) => new Promise((resolve, reject) => {
+    calls.push({ config, resolve: (data) => resolve({ data }), reject });
+    config.signal?.addEventListener('abort', () => reject(new Error('canceled')));
+  }));
+  return { axios, calls };
+};
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+describe('action concurrency', () => {
+  let consoleSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it("should share the in-flight result with dropped calls by default", async () => {
+    const { axios, calls } = createControlledAxios();
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { getList: true },
+    });
+
+    const { result } = renderHook(() => useCrud(store));
+
+    let first: Promise<any>;
+    let second: Promise<any>;
+    await act(async () => {
+      first = result.current.getList();
+      second = result.current.getList({ params: { page: 2 } });
+    });
+    expect(axios).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      calls[0].resolve([{ id: 1, name: 'One' }]);
+    });
+    expect(await first!).toEqual([{ id: 1, name: 'One' }]);
+    expect(await second!).toEqual([{ id: 1, name: 'One' }]);
+  });
+
+  it("should run queued calls one after the other", async () => {
+    const { axios, calls } = createControlledAxios();
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { update: { concurrency: 'queue' } },
+    });
+    store.setList([{ id: 1, name: 'One' }, { id: 2, name: 'Two' }]);
+
+    const { result } = renderHook(() => useCrud(store));
+
+    let first: Promise<any>;
+    let second: Promise<any>;
+    await act(async () => {
+      first = result.current.update({ id: 1, name: 'A' });
+      second = result.current.update({ id: 2, name: 'B' });
+      await flush();
+    });
+    expect(axios).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      calls[0].resolve({ id: 1, name: 'A' });
+      await flush();
+    });
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(calls[1].config.url).toBe('/items/2');
+    expect(result.current.update.isLoading).toBe(true);
+
+    await act(async () => {
+      calls[1].resolve({ id: 2, name: 'B' });
+    });
+    expect(await first!).toEqual({ id: 1, name: 'A' });
+    expect(await second!).toEqual({ id: 2, name: 'B' });
+    expect(result.current.update.isLoading).toBe(false);
+  });
+
+  it("should abort the in-flight call when replaced", async () => {
+    const { axios, calls } = createControlledAxios();
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { getList: { concurrency: 'replace' } },
+    });
+
+    const { result } = renderHook(() => useCrud(store));
+
+    let first: Promise<any>;
+    let second: Promise<any>;
+    await act(async () => {
+      first = result.current.getList({ params: { active: true } });
+      await flush();
+      second = result.current.getList({ params: { active: false } });
+      await flush();
+    });
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(calls[0].config.signal.aborted).toBe(true);
+
+    await act(async () => {
+      calls[1].resolve([{ id: 2, name: 'Inactive' }]);
+    });
+
+    expect(await first!).toEqual([{ id: 2, name: 'Inactive' }]);
+    expect(await second!).toEqual([{ id: 2, name: 'Inactive' }]);
+    expect(result.current.getList.error).toBeNull();
+    expect(consoleSpy).not.toHaveBeenCalled();
+  });
+
+  it("should not send a call that is replaced before its request starts", async () => {
+    const { axios, calls } = createControlledAxios();
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { getList: { concurrency: 'replace' } },
+    });
+
+    const { result } = renderHook(() => useCrud(store));
+
+    let first: Promise<any>;
+    await act(async () => {
+      first = result.current.getList({ params: { page: 1 } });
+      result.current.getList({ params: { page: 2 } });
+      await flush();
+    });
+    expect(axios).toHaveBeenCalledTimes(1);
+    expect(calls[0].config.params).toEqual({ page: 2 });
+
+    await act(async () => {
+      calls[0].resolve([{ id: 1, name: 'One' }]);
+    });
+    expect(await first!).toEqual([{ id: 1, name: 'One' }]);
+  });
+
+  it("should discard a replaced response when the transport ignores the signal", async () => {
+    const calls: ((data: any) => void)[] = [];
+    const axios = jest.fn(() => new Promise((resolve) => {
+      calls.push((data) => resolve({ data }));
+    }));
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { getList: { concurrency: 'replace' } },
+    });
+
+    const { result } = renderHook(() => useCrud(store));
+
+    await act(async () => {
+      result.current.getList();
+      await flush();
+      result.current.getList();
+      await flush();
+    });
+
+    await act(async () => {
+      calls[1]([{ id: 2, name: 'New' }]);
+      await flush();
+      calls[0]([{ id: 1, name: 'Old' }]);
+      await flush();
+    });
+
+    expect(Array.from(store.getState().data!.values())).toEqual([{ id: 2, name: 'New' }]);
+  });
+
+  it("should run parallel calls side by side", async () => {
+    const { axios, calls } = createControlledAxios();
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { delete: { concurrency: 'parallel' } },
+    });
+    store.setList([{ id: 3, name: 'Three' }, { id: 7, name: 'Seven' }]);
+
+    const { result } = renderHook(() => useCrud(store));
+
+    let first: Promise<any>;
+    let second: Promise<any>;
+    await act(async () => {
+      first = result.current.delete({ id: 3 });
+      second = result.current.delete({ id: 7 });
+      await flush();
+    });
+    expect(axios).toHaveBeenCalledTimes(2);
+
+    await act(async () => {
+      calls[1].resolve(null);
+      await flush();
+    });
+    expect(store.getState().data!.has('7')).toBe(false);
+    expect(result.current.delete.isLoading).toBe(true);
+
+    await act(async () => {
+      calls[0].reject(new Error('delete failed'));
+      await expect(first!).rejects.toThrow('delete failed');
+      await second!;
+    });
+    expect(store.getState().data!.has('3')).toBe(true);
+    expect(result.current.delete.isLoading).toBe(false);
+    expect(result.current.delete.error).toEqual(new Error('delete failed'));
+  });
+
+  it('should run a call made as soon as the previous one settles', async () => {
+    const { axios, calls } = createControlledAxios();
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { getList: true },
+    });
+
+    const { result } = renderHook(() => useCrud(store));
+
+    // Fetch again once the first fetch is done, like an effect would
+    const unsubscribe = store.subscribe((state, previous) => {
+      if (previous.loadingState.getList?.isLoading && !state.loadingState.getList?.isLoading) {
+        unsubscribe();
+        result.current.getList({ params: { page: 2 } });
+      }
+    });
+
+    await act(async () => {
+      result.current.getList();
+      await flush();
+    });
+    await act(async () => {
+      calls[0].resolve([{ id: 1, name: 'One' }]);
+      await flush();
+    });
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(calls[1].config.params).toEqual({ page: 2 });
+  });
+
+  it('should only drop calls for the same instance by default', async () => {
+    const { axios, calls } = createControlledAxios();
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { update: true },
+    });
+    store.setList([{ id: 3, name: 'Three' }, { id: 7, name: 'Seven' }]);
+
+    const { result } = renderHook(() => useCrud(store));
+
+    let first: Promise<any>;
+    let second: Promise<any>;
+    let third: Promise<any>;
+    await act(async () => {
+      first = result.current.update({ id: 3, name: 'A' });
+      second = result.current.update({ id: 7, name: 'B' });
+      third = result.current.update({ id: 3, name: 'C' });
+      await flush();
+    });
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(calls.map((call) => call.config.url)).toEqual(['/items/3', '/items/7']);
+
+    await act(async () => {
+      calls[1].resolve({ id: 7, name: 'B' });
+      calls[0].resolve({ id: 3, name: 'A' });
+    });
+    expect(await first!).toEqual({ id: 3, name: 'A' });
+    expect(await second!).toEqual({ id: 7, name: 'B' });
+    expect(await third!).toEqual({ id: 3, name: 'A' });
+  });
+
+  it('should send every create by default', async () => {
+    const { axios, calls } = createControlledAxios();
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { create: true },
+    });
+
+    const { result } = renderHook(() => useCrud(store));
+
+    let first: Promise<any>;
+    let second: Promise<any>;
+    await act(async () => {
+      first = result.current.create({ name: 'first' });
+      second = result.current.create({ name: 'second' });
+      await flush();
+    });
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(calls.map((call) => call.config.data)).toEqual([{ name: 'first' }, { name: 'second' }]);
+
+    await act(async () => {
+      calls[0].resolve({ id: 1, name: 'first' });
+      calls[1].resolve({ id: 2, name: 'second' });
+    });
+    expect(await first!).toEqual({ id: 1, name: 'first' });
+    expect(await second!).toEqual({ id: 2, name: 'second' });
+    expect(result.current.create.isLoading).toBe(false);
+    expect(store.getState().data!.size).toBe(2);
+  });
+
+  it('should reject a failed call with its error', async () => {
+    const { axios, calls } = createControlledAxios();
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { getList: true },
+    });
+
+    const { result } = renderHook(() => useCrud(store));
+    const error = new Error('list failed');
+
+    await act(async () => {
+      const promise = result.current.getList();
+      await flush();
+      calls[0].reject(error);
+      await expect(promise).rejects.toBe(error);
+    });
+    expect(result.current.getList.error).toBe(error);
+  });
+
+  it('should roll back an optimistic call when it is replaced', async () => {
+    const { axios, calls } = createControlledAxios();
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { update: { concurrency: 'replace', optimistic: true } },
+    });
+    store.setList([{ id: 1, name: 'One' }]);
+
+    const { result } = renderHook(() => useCrud(store));
+
+    let first: Promise<any>;
+    let second: Promise<any>;
+    await act(async () => {
+      first = result.current.update({ id: 1, name: 'A' });
+      await flush();
+      second = result.current.update({ id: 1, name: 'B' });
+      await flush();
+    });
+    expect(calls[0].config.signal.aborted).toBe(true);
+    expect(store.getState().data!.get('1')).toEqual({ id: 1, name: 'B' });
+
+    await act(async () => {
+      calls[1].reject(new Error('update failed'));
+      await expect(second!).rejects.toThrow('update failed');
+      await expect(first!).rejects.toThrow('update failed');
+    });
+    expect(store.getState().data!.get('1')).toEqual({ id: 1, name: 'One' });
+  });
+});
@@ -427,6 +427,8 @@ describe('createStoreRegistry', () => {
       response: undefined,
       id: undefined,
       sequence: 0, // First call, sequence starts at 0
+      retryCount: 0,
+      isRetrying: false,
     });
 
     // Update loading state
@@ -0,0 +1,142 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { usePagination } from '../src/usePagination';
+import { useGetList } from '../src/useGetList';
+import { renderHook, act } from '@testing-library/react';
+
+interface Item {
+  id: number;
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+// Three pages of two items, linked by cursors 'a' (first), 'b' and 'c'
+const pages: { [cursor: string]: { results: Item[]; next: string | null; previous: string | null } } = {
+  a: { results: [{ id: 1 }, { id: 2 }], next: 'b', previous: null },
+  b: { results: [{ id: 3 }, { id: 4 }], next: 'c', previous: 'a' },
+  c: { results: [{ id: 5 }], next: null, previous: 'b' },
+};
+
+const createAxios = () => jest.fn((config: any) => Promise.resolve({
+  data: pages[config.params.cursor ?? 'a'],
+}));
+
+const createStore = (axios: any, mode: 'append' | 'replace' = 'replace') =>
+  createStoreRegistry<{ items: Item }>()('items', {
+    axios: axios as any,
+    route: '/items',
+    actions: { getList: true },
+    pagination: {
+      type: 'cursor',
+      mode,
+      prepare: (data: any) => ({ nextCursor: data.next, prevCursor: data.previous }),
+      prepareParams: ({ cursor }: any) => cursor ? { cursor } : {},
+      extractList: (data: any) => data.results,
+    },
+  });
+
+const ids = (list: Item[] | null) => list!.map((item) => item.id);
+
+describe('cursor pagination', () => {
+  it('should move between pages with next and previous', async () => {
+    const axios = createAxios();
+    const store = createStore(axios);
+
+    const { result } = renderHook(() => ({
+      list: useGetList(store),
+      pages: usePagination(store),
+    }));
+    await act(async () => { await flush(); });
+    expect(ids(result.current.list[0])).toEqual([1, 2]);
+    expect(result.current.pages.hasNext).toBe(true);
+    expect(result.current.pages.hasPrevious).toBe(false);
+
+    await act(async () => { await result.current.pages.next(); });
+    expect(axios).toHaveBeenLastCalledWith(expect.objectContaining({ params: { cursor: 'b' } }));
+    expect(ids(result.current.list[0])).toEqual([3, 4]);
+    expect(result.current.pages.pagination!.cursor).toBe('b');
+    expect(result.current.pages.hasPrevious).toBe(true);
+
+    await act(async () => { await result.current.pages.next(); });
+    expect(ids(result.current.list[0])).toEqual([5]);
+    expect(result.current.pages.hasNext).toBe(false);
+
+    await act(async () => { await result.current.pages.next(); });
+    expect(axios).toHaveBeenCalledTimes(3);
+
+    await act(async () => { await result.current.pages.previous(); });
+    expect(axios).toHaveBeenLastCalledWith(expect.objectContaining({ params: { cursor: 'b' } }));
+    expect(ids(result.current.list[0])).toEqual([3, 4]);
+  });
+
+  it('should append pages in append mode', async () => {
+    const store = createStore(createAxios(), 'append');
+
+    const { result } = renderHook(() => ({
+      list: useGetList(store),
+      pages: usePagination(store),
+    }));
+    await act(async () => { await flush(); });
+    await act(async () => { await result.current.pages.loadMore(); });
+    await act(async () => { await result.current.pages.loadMore(); });
+
+    expect(ids(result.current.list[0])).toEqual([1, 2, 3, 4, 5]);
+    expect(result.current.pages.hasMore).toBe(false);
+    expect(result.current.pages.hasPrevious).toBe(false);
+
+    // Back to the first page starts over
+    await act(async () => {
+      result.current.pages.setPagination({ cursor: null });
+      result.current.list[1]();
+      await flush();
+    });
+    expect(ids(result.current.list[0])).toEqual([1, 2]);
+  });
+
+  it('should restore the cursor when a page fails to load', async () => {
+    const axios = createAxios();
+    const store = createStore(axios);
+
+    const { result } = renderHook(() => usePagination(store));
+    await act(async () => { await result.current.previous(); });
+    expect(axios).not.toHaveBeenCalled();
+
+    store.setPagination({ nextCursor: 'b' });
+    axios.mockImplementationOnce(() => Promise.reject(new Error('Network')));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await act(async () => { await result.current.next(); });
+    (console.error as jest.Mock).mockRestore();
+
+    expect(result.current.pagination!.cursor).toBeUndefined();
+    expect(result.current.hasNext).toBe(true);
+  });
+
+  it('should page offset lists with next and previous', async () => {
+    const axios = jest.fn((config: any) => Promise.resolve({
+      data: { results: [{ id: config.params.offset }], count: 3 },
+    }));
+    const store = createStoreRegistry<{ items: Item }>()('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { getList: true },
+      pagination: {
+        limit: 1,
+        prepare: (data: any) => ({ count: data.count }),
+        prepareParams: ({ offset, limit }: any) => ({ offset, limit }),
+        extractList: (data: any) => data.results,
+      },
+    });
+
+    const { result } = renderHook(() => ({
+      list: useGetList(store),
+      pages: usePagination(store),
+    }));
+    await act(async () => { await flush(); });
+    await act(async () => { await result.current.pages.next(); });
+    await act(async () => { await result.current.pages.next(); });
+    expect(result.current.pages.hasNext).toBe(false);
+
+    await act(async () => { await result.current.pages.previous(); });
+    expect(ids(result.current.list[0])).toEqual([1]);
+    expect(result.current.pages.pagination!.offset).toBe(1);
+  });
+});
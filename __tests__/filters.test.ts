@@ -0,0 +1,175 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { useFilters } from '../src/useFilters';
+import { getAction } from '../src/useActions';
+import { parseOrdering, defaultPrepareFilterParams } from '../src/config';
+import { renderHook, act } from '@testing-library/react';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+const createStore = (axios: any, filters: object = {}) =>
+  createStoreRegistry<{ users: User }>()('users', {
+    axios: axios as any,
+    route: '/users',
+    actions: { getList: true },
+    pagination: {
+      limit: 10,
+      prepareParams: ({ offset, limit }: any) => ({ offset, limit }),
+    },
+    filters: { initial: { status: 'all', search: '' }, ...filters },
+    ordering: '-name',
+  });
+
+describe('filters and ordering', () => {
+  it('should parse ordering strings', () => {
+    expect(parseOrdering('-name')).toEqual({ field: 'name', direction: 'desc' });
+    expect(parseOrdering('name')).toEqual({ field: 'name', direction: 'asc' });
+    expect(parseOrdering(null)).toBeNull();
+  });
+
+  it('should leave out filters that are not set', () => {
+    expect(defaultPrepareFilterParams(
+      { status: 'active', search: '', team: null },
+      { field: 'name', direction: 'asc' }
+    )).toEqual({ status: 'active', ordering: 'name' });
+  });
+
+  it('should merge filters and ordering into getList params', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: [] });
+    const store = createStore(axios);
+    store.setFilter('search', 'ann');
+
+    await getAction(store, 'getList')({ params: { status: 'override' } });
+
+    expect(axios).toHaveBeenCalledWith(expect.objectContaining({
+      params: { offset: 0, limit: 10, status: 'override', search: 'ann', ordering: '-name' },
+    }));
+  });
+
+  it('should use a custom prepareParams', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: [] });
+    const store = createStore(axios, {
+      prepareParams: (filters: any, ordering: any) => ({ q: filters.search, sort: ordering?.field }),
+    });
+    store.setFilter('search', 'ann');
+
+    await getAction(store, 'getList')();
+    expect(axios).toHaveBeenCalledWith(expect.objectContaining({
+      params: { offset: 0, limit: 10, q: 'ann', sort: 'name' },
+    }));
+  });
+
+  it('should reset the offset when filters or ordering change', () => {
+    const store = createStore(jest.fn());
+
+    store.setPagination({ offset: 30 });
+    store.setFilter('status', 'active');
+    expect(store.getState().pagination.offset).toBe(0);
+
+    store.setPagination({ offset: 30 });
+    store.setOrdering('name');
+    expect(store.getState().pagination.offset).toBe(0);
+    expect(store.getState().ordering).toEqual({ field: 'name', direction: 'asc' });
+
+    store.setPagination({ offset: 30 });
+    store.clearFilters();
+    expect(store.getState().pagination.offset).toBe(0);
+    expect(store.getState().filters).toEqual({ status: 'all', search: '' });
+  });
+
+  it('should not change the ordering to the same value', () => {
+    const store = createStore(jest.fn());
+    const { ordering } = store.getState();
+
+    store.setPagination({ offset: 30 });
+    store.setOrdering({ field: 'name', direction: 'desc' });
+    expect(store.getState().ordering).toBe(ordering);
+    expect(store.getState().pagination.offset).toBe(30);
+
+    store.setOrdering(null);
+    store.setOrdering(null);
+    expect(store.getState().ordering).toBeNull();
+  });
+
+  it('should replace a fetch for previous filters', async () => {
+    const calls: { config: any; resolve: (data: any) => void }[] = [];
+    const axios = jest.fn((config: any) => new Promise((resolve, reject) => {
+      calls.push({ config, resolve: (data) => resolve({ data }) });
+      config.signal?.addEventListener('abort', () => reject(new Error('canceled')));
+    }));
+    const store = createStore(axios, { refetch: true });
+
+    const first = getAction(store, 'getList')();
+    await flush();
+    store.setFilter('search', 'a');
+    await flush();
+    store.setFilter('search', 'ab');
+    await flush();
+
+    expect(axios).toHaveBeenCalledTimes(3);
+    expect(calls[0].config.signal.aborted).toBe(true);
+    expect(calls[1].config.signal.aborted).toBe(true);
+    expect(calls[2].config.params.search).toBe('ab');
+
+    calls[2].resolve([{ id: 1, name: 'Abe' }]);
+    expect(await first).toEqual([{ id: 1, name: 'Abe' }]);
+    expect(Array.from(store.getState().data!.keys())).toEqual(['1']);
+    expect(store.getState().loadingState['getList'].isLoading).toBe(false);
+  });
+
+  it('should not refetch by default', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: [] });
+    const store = createStore(axios);
+    store.setFilter('status', 'active');
+    await flush();
+    expect(axios).not.toHaveBeenCalled();
+  });
+
+  it('should refetch on changes with refetch enabled', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: [] });
+    const store = createStore(axios, { refetch: true });
+
+    const { result } = renderHook(() => useFilters(store));
+    expect(result.current.filters).toEqual({ status: 'all', search: '' });
+    expect(result.current.ordering).toEqual({ field: 'name', direction: 'desc' });
+
+    await act(async () => {
+      result.current.setFilter('status', 'active');
+      await flush();
+    });
+    expect(result.current.filters.status).toBe('active');
+    expect(axios).toHaveBeenCalledTimes(1);
+    expect(axios).toHaveBeenLastCalledWith(expect.objectContaining({
+      params: { offset: 0, limit: 10, status: 'active', ordering: '-name' },
+    }));
+
+    // Setting the same value changes nothing
+    await act(async () => {
+      result.current.setFilter('status', 'active');
+      await flush();
+    });
+    expect(axios).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      result.current.setOrdering(null);
+      await flush();
+    });
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(axios).toHaveBeenLastCalledWith(expect.objectContaining({
+      params: { offset: 0, limit: 10, status: 'active' },
+    }));
+  });
+
+  it('should not apply to query lists', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: [] });
+    const store = createStore(axios);
+    store.setFilter('status', 'active');
+
+    await getAction(store, 'getList')({ params: { team: 1 }, queryKey: 'team-1' });
+    expect(axios).toHaveBeenCalledWith(expect.objectContaining({ params: { offset: 0, limit: 10, team: 1 } }));
+  });
+});
@@ -0,0 +1,135 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { getAction } from '../src/useActions';
+import { graphqlTransport, GraphQLError, GraphQLOperationError, getPath } from '../src/graphql';
+import { TransportError } from '../src/transport';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const USERS = 'query Users($team: ID) { users(team: $team) { id name } }';
+const USER = 'query User($id: ID!) { user(id: $id) { id name } }';
+const CREATE = 'mutation CreateUser($input: UserInput!) { createUser(input: $input) { user { id name } } }';
+const DELETE = 'mutation DeleteUser($id: ID!) { deleteUser(id: $id) }';
+const BAN = 'mutation Ban($id: ID!, $reason: String) { banUser(id: $id, reason: $reason) { id } }';
+
+// Answers like a GraphQL server, by the query that was sent
+const createHttp = (respond: (query: string, variables: any) => any) => ({
+  request: jest.fn(async (request: any) => ({
+    status: 200,
+    data: respond(request.data.query, request.data.variables),
+    headers: {},
+  })),
+});
+
+const createStore = (http: { request: any }) =>
+  createStoreRegistry<{ users: User }>()('users', {
+    route: '/users',
+    transport: graphqlTransport({
+      url: '/graphql',
+      transport: http,
+      operations: {
+        getList: { query: USERS },
+        get: { query: USER, variables: ({ data }) => ({ id: data.id }) },
+        create: { query: CREATE, variables: ({ data }) => ({ input: data }), path: 'createUser.user' },
+        delete: { query: DELETE, variables: ({ data }) => ({ id: data.id }) },
+        ban: { query: BAN, variables: ({ data, args }) => ({ id: data.id, reason: args?.reason }) },
+      },
+    }),
+    actions: { getList: true, get: true, create: true, delete: true },
+    customActions: { ban: { route: '/unused' } },
+  });
+
+describe('graphqlTransport', () => {
+  it('should fetch lists and instances into the store', async () => {
+    const http = createHttp((query, variables) => query === USERS
+      ? { data: { users: [{ id: 1, name: 'Ann' }, { id: 2, name: `Team ${variables.team}` }] } }
+      : { data: { user: { id: variables.id, name: 'Updated' } } });
+    const store = createStore(http);
+
+    await getAction(store, 'getList')({ params: { team: 5 } });
+    expect(http.request).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'post',
+      url: '/graphql',
+      data: { query: USERS, variables: { team: 5 } },
+      signal: expect.any(AbortSignal),
+    }));
+    expect(Array.from(store.getState().data!.values())).toEqual([
+      { id: 1, name: 'Ann' },
+      { id: 2, name: 'Team 5' },
+    ]);
+
+    await getAction(store, 'get')({ id: 2 });
+    expect(store.getState().data!.get('2')).toEqual({ id: 2, name: 'Updated' });
+  });
+
+  it('should map mutations and custom actions with variables and paths', async () => {
+    const http = createHttp((query, variables) => {
+      if (query === CREATE) return { data: { createUser: { user: { id: 3, ...variables.input } } } };
+      if (query === BAN) return { data: { banUser: { id: variables.id } } };
+      return { data: { deleteUser: true } };
+    });
+    const store = createStore(http);
+    const callback = jest.fn();
+
+    await getAction(store, 'create')({ name: 'Cleo' });
+    expect(store.getState().data!.get('3')).toEqual({ id: 3, name: 'Cleo' });
+
+    await getAction(store, 'custom', 'ban')({ id: 3 }, { args: { reason: 'spam' }, callback });
+    expect(http.request.mock.calls[1][0].data.variables).toEqual({ id: 3, reason: 'spam' });
+    expect(callback).toHaveBeenCalledWith({ id: 3 }, expect.anything());
+
+    await getAction(store, 'delete')({ id: 3 });
+    expect(store.getState().data!.has('3')).toBe(false);
+  });
+
+  it('should turn errors into action errors', async () => {
+    const http = createHttp(() => ({ data: null, errors: [{ message: 'Forbidden' }, { message: 'Try again' }] }));
+    const store = createStore(http);
+    const onError = jest.fn();
+
+    await expect(getAction(store, 'getList')({ onError })).rejects.toBeInstanceOf(GraphQLError);
+
+    const error = onError.mock.calls[0][0];
+    expect(error).toBeInstanceOf(GraphQLError);
+    expect(error.message).toBe('Forbidden; Try again');
+    expect(error.errors).toHaveLength(2);
+    expect(store.getState().loadingState.getList.error).toBe(error);
+    expect(store.getState().data).toBeNull();
+  });
+
+  it('should read errors from error statuses', async () => {
+    const response = { status: 400, data: { errors: [{ message: 'Syntax error' }] }, headers: {} };
+    const http = { request: jest.fn().mockRejectedValue(new TransportError(response)) };
+    const store = createStore(http);
+    const onError = jest.fn();
+
+    await expect(getAction(store, 'get')({ id: 1 }, { onError })).rejects.toBeInstanceOf(GraphQLError);
+    expect(onError).toHaveBeenCalledWith(expect.any(GraphQLError));
+    expect(onError.mock.calls[0][0].response.status).toBe(400);
+  });
+
+  it('should reject actions without an operation', async () => {
+    const store = createStoreRegistry<{ users: User }>()('users', {
+      route: '/users',
+      transport: graphqlTransport({ url: '/graphql', transport: createHttp(() => ({})), operations: {} }),
+      actions: { update: { retry: 3 } },
+    });
+    const onError = jest.fn();
+
+    await expect(getAction(store, 'update')({ id: 1 }, { onError })).rejects.toBeInstanceOf(GraphQLOperationError);
+    expect(onError.mock.calls[0][0].message).toBe('No GraphQL operation for action "update"');
+    expect(onError.mock.calls[0][0].action).toBe('update');
+    // Not retried
+    expect(store.getState().loadingState.update.retryCount).toBe(0);
+  });
+
+  it('should resolve paths', () => {
+    expect(getPath({ users: { edges: [1] } }, 'users.edges')).toEqual([1]);
+    expect(getPath({ users: [1] }, undefined)).toEqual([1]);
+    expect(getPath({ a: 1, b: 2 }, undefined)).toEqual({ a: 1, b: 2 });
+    expect(getPath({ a: { b: 2 } }, (data) => data.a.b)).toBe(2);
+    expect(getPath(null, 'a.b')).toBeUndefined();
+  });
+});
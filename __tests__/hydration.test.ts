@@ -0,0 +1,113 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { useGetList } from '../src/useGetList';
+import { useGet } from '../src/useGet';
+import { renderHook, act } from '@testing-library/react';
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+type Models = { items: Item; other: Item };
+
+const items: Item[] = [
+  { id: 2, name: 'Two' },
+  { id: 1, name: 'One' },
+];
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+const config = (axios: any = jest.fn()) => ({
+  axios: axios as any,
+  route: '/items',
+  pagination: true as const,
+  state: { filter: 'all' },
+});
+
+// Server side: fetch and dehydrate, then send over the wire as JSON
+const createSnapshot = () => {
+  const server = createStoreRegistry<Models>();
+  const store = server('items', config());
+  store.setList(items);
+  store.setPagination({ count: 20, limit: 2 });
+  store.patchState({ filter: 'active' });
+  store.getState().setFetchedAt(null, 1000);
+  store.getState().setFetchedAt('1', 2000);
+  return JSON.parse(JSON.stringify(server.dehydrate()));
+};
+
+describe('dehydrate and hydrate', () => {
+  it('should produce JSON-safe snapshots of created stores', () => {
+    const registry = createStoreRegistry<Models>();
+    registry('items', config()).setList(items);
+    registry('other', { axios: jest.fn() as any, route: '/other' });
+
+    const snapshot = registry.dehydrate();
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+    expect(snapshot.items.data).toEqual([['2', items[0]], ['1', items[1]]]);
+    expect(snapshot.other.data).toBeNull();
+  });
+
+  it('should seed stores that are created after hydrate', () => {
+    const client = createStoreRegistry<Models>();
+    client.hydrate(createSnapshot());
+
+    const state = client('items', config()).getState();
+    expect(Array.from(state.data!.keys())).toEqual(['2', '1']);
+    expect(state.pagination).toEqual({ count: 20, offset: 0, limit: 2 });
+    expect(state.state).toEqual({ filter: 'active' });
+    expect(state.listFetchedAt).toBe(1000);
+    expect(state.fetchedAt).toEqual({ '1': 2000 });
+  });
+
+  it('should seed stores that already exist', () => {
+    const client = createStoreRegistry<Models>();
+    const store = client('items', config());
+    client.hydrate(createSnapshot());
+
+    expect(store.getState().data!.get('1')).toEqual(items[1]);
+    expect(store.getState().pagination.count).toBe(20);
+  });
+
+  it('should skip the auto-fetch of hooks on first render', async () => {
+    const axios = jest.fn();
+    const client = createStoreRegistry<Models>();
+    client.hydrate(createSnapshot());
+    const store = client('items', config(axios));
+
+    const { result } = renderHook(() => ({
+      list: useGetList(store),
+      item: useGet(store, 1),
+    }));
+    expect(result.current.list[0]).toEqual(items);
+    expect(result.current.item[0]).toEqual(items[1]);
+
+    await act(async () => { await flush(); });
+    expect(axios).not.toHaveBeenCalled();
+  });
+
+  it('should carry query lists without their loading state', () => {
+    const server = createStoreRegistry<Models>();
+    const store = server('items', config());
+    store.getState().setQuery('q', { params: { q: 'one' }, fetchedAt: 1000, loadingState: { isLoading: true } });
+    store.getState().setQueryList('q', [items[1]]);
+
+    const client = createStoreRegistry<Models>();
+    client.hydrate(JSON.parse(JSON.stringify(server.dehydrate())));
+
+    const state = client('items', config()).getState();
+    expect(state.queries.q).toMatchObject({ ids: ['1'], params: { q: 'one' }, fetchedAt: 1000 });
+    expect(state.queries.q.loadingState.isLoading).toBe(false);
+    expect(state.data!.get('1')).toEqual(items[1]);
+    expect(state.listIds).toBeNull();
+  });
+
+  it('should only seed a store once', () => {
+    const client = createStoreRegistry<Models>();
+    client.hydrate(createSnapshot());
+    client('items', config()).setList([]);
+
+    expect(client('items', config()).getState().data!.size).toBe(0);
+    expect(client.dehydrate().items.data).toEqual([]);
+  });
+});
@@ -0,0 +1,187 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { useCrud } from '../src/useCrud';
+import {
+  defaultLoadingState,
+  getInstanceLoadingState,
+  setInstanceLoadingState,
+  useInstanceLoadingState,
+} from '../src/loadingState';
+import { renderHook, act } from '@testing-library/react';
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+const createControlledAxios = () => {
+  const calls: { config: any; resolve: (data: any) => void; reject: (error: any) => void }[] = [];
+  const axios = jest.fn((config: any) => new Promise((resolve, reject) => {
+    calls.push({ config, resolve: (data) => resolve({ data }), reject });
+  }));
+  return { axios, calls };
+};
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+describe('instance loading state', () => {
+  let consoleSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should get and set loading state per action and id', () => {
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', { axios: jest.fn() as any, route: '/items' });
+
+    expect(getInstanceLoadingState(store, 'delete', 3)).toEqual(defaultLoadingState);
+
+    setInstanceLoadingState(store, 'delete', 3, { isLoading: true, id: 3 });
+    setInstanceLoadingState(store, 'delete', 3, { isLoading: false });
+
+    expect(getInstanceLoadingState(store, 'delete', '3')).toEqual({
+      ...defaultLoadingState,
+      id: 3,
+      sequence: 1,
+    });
+    expect(getInstanceLoadingState(store, 'delete', 7)).toEqual(defaultLoadingState);
+  });
+
+  it('should keep each row loading until its own request settles', async () => {
+    const { axios, calls } = createControlledAxios();
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { delete: { concurrency: 'parallel' } },
+    });
+    store.setList([{ id: 3, name: 'Three' }, { id: 7, name: 'Seven' }]);
+
+    const { result } = renderHook(() => ({
+      crud: useCrud(store),
+      row3: useInstanceLoadingState(store, 3),
+      row7: useInstanceLoadingState(store, 7),
+    }));
+
+    await act(async () => {
+      result.current.crud.delete({ id: 3 }).catch(() => undefined);
+      result.current.crud.delete({ id: 7 });
+      await flush();
+    });
+    expect(result.current.row3.delete.isLoading).toBe(true);
+    expect(result.current.row7.delete.isLoading).toBe(true);
+
+    await act(async () => {
+      calls[1].resolve(null);
+      await flush();
+    });
+    expect(result.current.row3.delete.isLoading).toBe(true);
+    expect(result.current.row7.delete.isLoading).toBe(false);
+    expect(result.current.crud.delete.isLoading).toBe(true);
+
+    await act(async () => {
+      calls[0].reject(new Error('delete failed'));
+      await flush();
+    });
+    expect(result.current.row3.delete.isLoading).toBe(false);
+    expect(result.current.row3.delete.error).toEqual(new Error('delete failed'));
+    expect(result.current.row7.delete.error).toBeNull();
+    expect(result.current.crud.delete.isLoading).toBe(false);
+  });
+
+  it('should track rows separately with the default concurrency', async () => {
+    const { axios, calls } = createControlledAxios();
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { delete: true },
+    });
+    store.setList([{ id: 3, name: 'Three' }, { id: 7, name: 'Seven' }]);
+
+    const { result } = renderHook(() => ({
+      crud: useCrud(store),
+      row3: useInstanceLoadingState(store, 3),
+      row7: useInstanceLoadingState(store, 7),
+    }));
+
+    await act(async () => {
+      result.current.crud.delete({ id: 3 });
+      result.current.crud.delete({ id: 7 });
+      await flush();
+    });
+    expect(calls.map((call) => call.config.url)).toEqual(['/items/3', '/items/7']);
+    expect(result.current.row3.delete.isLoading).toBe(true);
+    expect(result.current.row7.delete.isLoading).toBe(true);
+
+    await act(async () => {
+      calls[0].resolve(null);
+      await flush();
+    });
+    expect(result.current.row3.delete.isLoading).toBe(false);
+    expect(result.current.row7.delete.isLoading).toBe(true);
+    expect(store.getState().data!.has('3')).toBe(false);
+
+    await act(async () => {
+      calls[1].resolve(null);
+      await flush();
+    });
+    expect(result.current.row7.delete.isLoading).toBe(false);
+    expect(result.current.crud.delete.isLoading).toBe(false);
+    expect(store.getState().data!.size).toBe(0);
+  });
+
+  it('should include configured detail and custom actions only', () => {
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: jest.fn() as any,
+      route: '/items',
+      actions: { getList: true, update: true },
+      customActions: { archive: { route: '/items/archive', method: 'post' } },
+    });
+
+    const { result } = renderHook(() => useInstanceLoadingState(store, 1));
+
+    expect(Object.keys(result.current).sort()).toEqual(['archive', 'update']);
+    expect(result.current.update).toEqual(defaultLoadingState);
+  });
+
+  it('should track custom actions called with an instance', async () => {
+    const { axios, calls } = createControlledAxios();
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { get: true },
+      customActions: {
+        archive: { route: (item: Item) => `/items/${item.id}/archive`, method: 'post' },
+      },
+    });
+
+    const { result } = renderHook(() => ({
+      crud: useCrud(store),
+      row: useInstanceLoadingState(store, 5),
+    }));
+
+    await act(async () => {
+      result.current.crud.archive({ id: 5, name: 'Five' });
+      await flush();
+    });
+    expect(result.current.row.archive.isLoading).toBe(true);
+    expect(result.current.row.get.isLoading).toBe(false);
+
+    await act(async () => {
+      calls[0].resolve({ ok: true });
+      await flush();
+    });
+    expect(result.current.row.archive).toEqual(expect.objectContaining({
+      isLoading: false,
+      response: { ok: true },
+      id: 5,
+    }));
+  });
+});
@@ -0,0 +1,128 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { useGetList } from '../src/useGetList';
+import { useGet } from '../src/useGet';
+import { getAction } from '../src/useActions';
+import { renderHook, act } from '@testing-library/react';
+
+interface Post {
+  id: number;
+  commentCount: number;
+}
+
+interface User {
+  id: number;
+  name: string;
+}
+
+interface Comment {
+  id: number;
+  postId: number;
+  authorId: number;
+}
+
+type Models = { posts: Post; users: User; comments: Comment };
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+const createRegistry = () => {
+  const axios = jest.fn((config: any) => {
+    if (config.url === '/posts') return Promise.resolve({ data: [{ id: 1, commentCount: axios.mock.calls.length }] });
+    if (config.url.startsWith('/users/')) return Promise.resolve({ data: { id: 7, name: 'Ann' } });
+    if (config.url === '/comments') return Promise.resolve({ data: { id: 3, ...config.data } });
+    return Promise.resolve({ data: [] });
+  });
+  const registry = createStoreRegistry<Models>();
+  const posts = registry('posts', { axios: axios as any, route: '/posts', actions: { getList: true } });
+  const users = registry('users', { axios: axios as any, route: '/users', actions: { get: true } });
+  const comments = registry('comments', {
+    axios: axios as any,
+    route: '/comments',
+    actions: {
+      create: { invalidates: ['posts', { key: 'users', id: (data) => data.authorId }] },
+    },
+  });
+  return { axios, registry, posts, users, comments };
+};
+
+const urls = (axios: jest.Mock) => axios.mock.calls.map(([config]) => config.url);
+
+describe('invalidation', () => {
+  it('should refetch invalidated lists in mounted hooks', async () => {
+    const { axios, registry, posts } = createRegistry();
+
+    const { result } = renderHook(() => useGetList(posts));
+    await act(flush);
+    expect(result.current[0]).toEqual([{ id: 1, commentCount: 1 }]);
+
+    await act(async () => {
+      registry.invalidate('posts');
+      await flush();
+    });
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(result.current[0]).toEqual([{ id: 1, commentCount: 2 }]);
+    expect(result.current[1].isStale).toBe(false);
+    expect(posts.getState().invalidated).toEqual({ list: false, queries: [], ids: [] });
+  });
+
+  it('should mark data stale and refetch it on the next mount', async () => {
+    const { axios, registry, posts } = createRegistry();
+    await getAction(posts, 'getList')();
+
+    registry.invalidate('posts');
+    expect(posts.getState().invalidated).toEqual({ list: true, queries: [], ids: ['1'] });
+
+    renderHook(() => useGetList(posts));
+    await act(flush);
+    expect(axios).toHaveBeenCalledTimes(2);
+
+    // Stores that were not created are skipped
+    expect(() => createStoreRegistry<Models>().invalidate('posts')).not.toThrow();
+  });
+
+  it('should invalidate query lists', async () => {
+    const { axios, posts } = createRegistry();
+
+    renderHook(() => useGetList(posts, { params: { top: true } }));
+    await act(flush);
+    await act(async () => {
+      posts.getState().invalidate();
+      await flush();
+    });
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(posts.getState().invalidated.queries).toEqual([]);
+  });
+
+  it('should only refetch the invalidated instance', async () => {
+    const { axios, registry, users } = createRegistry();
+    users.setList([{ id: 7, name: 'Old' }, { id: 8, name: 'Bob' }]);
+
+    const seven = renderHook(() => useGet(users, 7));
+    const eight = renderHook(() => useGet(users, 8));
+    await act(flush);
+    expect(axios).not.toHaveBeenCalled();
+
+    await act(async () => {
+      registry.invalidate('users', 7);
+      await flush();
+    });
+    expect(urls(axios)).toEqual(['/users/7']);
+    expect(seven.result.current[0]).toEqual({ id: 7, name: 'Ann' });
+    expect(eight.result.current[1].isStale).toBe(false);
+  });
+
+  it('should invalidate the stores listed in invalidates after an action succeeds', async () => {
+    const { axios, posts, users, comments } = createRegistry();
+    users.setList([{ id: 7, name: 'Old' }]);
+
+    renderHook(() => useGetList(posts));
+    renderHook(() => useGet(users, 7));
+    await act(flush);
+    axios.mockClear();
+
+    await act(async () => {
+      await getAction(comments, 'create')({ postId: 1, authorId: 7 });
+      await flush();
+    });
+    expect(urls(axios)).toEqual(['/comments', '/posts', '/users/7']);
+  });
+});
@@ -0,0 +1,173 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { getAction } from '../src/useActions';
+import {
+  deserializeDocument,
+  deserializeResource,
+  serializeResource,
+  getJsonApiPagination,
+  getLinkCursor,
+} from '../src/jsonapi';
+
+interface Article {
+  id: string;
+  title: string;
+  author: string | null;
+  tags: string[];
+}
+
+interface Person {
+  id: string;
+  name: string;
+}
+
+const ARTICLE = {
+  type: 'articles',
+  id: '1',
+  attributes: { title: 'Hello' },
+  relationships: {
+    author: { data: { type: 'people', id: '9' } },
+    tags: { data: [{ type: 'tags', id: 'a' }, { type: 'tags', id: 'b' }] },
+    comments: { links: { related: '/articles/1/comments' } },
+  },
+};
+
+const PERSON = { type: 'people', id: '9', attributes: { name: 'Ann' } };
+
+const respond = (data: any) => ({ status: 200, data, headers: {} });
+
+const createRegistry = (request: jest.Mock) => {
+  const registry = createStoreRegistry<{ articles: Article; people: Person }>({ transport: { request } });
+  const articles = registry('articles', {
+    route: '/articles',
+    format: 'jsonapi',
+    jsonApi: { relationships: { author: 'people', tags: 'tags' } },
+    pagination: { type: 'cursor' },
+    actions: { getList: true, get: true, create: true, update: true, bulkCreate: true },
+  });
+  const people = registry('people', { route: '/people', pagination: true, actions: { get: true } });
+  return { registry, articles, people };
+};
+
+describe('JSON:API documents', () => {
+  it('should flatten resources into instances', () => {
+    expect(deserializeResource(ARTICLE)).toEqual({ id: '1', title: 'Hello', author: '9', tags: ['a', 'b'] });
+    expect(deserializeResource({ type: 'people', id: '2', relationships: { boss: { data: null } } }, 'pk'))
+      .toEqual({ pk: '2', boss: null });
+    expect(deserializeDocument({ data: [PERSON] })).toEqual([{ id: '9', name: 'Ann' }]);
+    expect(deserializeDocument({ data: null })).toBeNull();
+    expect(deserializeDocument([1, 2])).toEqual([1, 2]);
+  });
+
+  it('should serialize instances into resources', () => {
+    expect(serializeResource(
+      { id: 1, title: 'Hello', author: 9, tags: ['a'] },
+      { type: 'articles', relationships: { author: 'people', tags: 'tags' } },
+    )).toEqual({
+      data: {
+        type: 'articles',
+        id: '1',
+        attributes: { title: 'Hello' },
+        relationships: {
+          author: { data: { type: 'people', id: '9' } },
+          tags: { data: [{ type: 'tags', id: 'a' }] },
+        },
+      },
+    });
+    expect(serializeResource({ title: 'New', author: null }, { type: 'articles', relationships: { author: 'people' } }))
+      .toEqual({ data: { type: 'articles', attributes: { title: 'New' }, relationships: { author: { data: null } } } });
+  });
+
+  it('should read the pagination from meta and links', () => {
+    expect(getJsonApiPagination({
+      data: [],
+      meta: { total: 42 },
+      links: { next: '/articles?page%5Bafter%5D=abc', prev: { href: '/articles?page[before]=x%20y' } },
+    })).toEqual({ count: 42, nextCursor: 'abc', prevCursor: 'x y' });
+    expect(getJsonApiPagination({ data: [], links: { self: '/articles' } })).toEqual({ nextCursor: null, prevCursor: null });
+    expect(getJsonApiPagination({ data: [], meta: { count: 3 } })).toEqual({ count: 3 });
+    expect(getLinkCursor('/articles?page[offset]=10')).toBeNull();
+    expect(getJsonApiPagination({ data: [], links: { next: '/articles?page%5Bnumber%5D=2' } }))
+      .toEqual({ nextCursor: null, prevCursor: null });
+  });
+});
+
+describe("format: 'jsonapi'", () => {
+  it('should fetch lists with their pagination and included resources', async () => {
+    const request = jest.fn().mockResolvedValue(respond({
+      data: [ARTICLE],
+      included: [PERSON, { type: 'tags', id: 'a', attributes: { label: 'news' } }],
+      meta: { total: 7 },
+      links: { next: '/articles?page[cursor]=next' },
+    }));
+    const { articles, people } = createRegistry(request);
+
+    await getAction(articles, 'getList')();
+
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({
+      headers: { Accept: 'application/vnd.api+json' },
+    }));
+    expect(articles.getState().data!.get('1')).toEqual({ id: '1', title: 'Hello', author: '9', tags: ['a', 'b'] });
+    expect(articles.getState().pagination).toMatchObject({ count: 7, nextCursor: 'next', prevCursor: null });
+    // There is no tags store, so the tag is skipped
+    expect(people.getState().data!.get('9')).toEqual({ id: '9', name: 'Ann' });
+    expect(people.getState().pagination.count).toBe(0);
+  });
+
+  it('should send create and update as documents', async () => {
+    const request = jest.fn()
+      .mockResolvedValueOnce(respond({ data: { ...ARTICLE, attributes: { title: 'Draft' } } }))
+      .mockResolvedValueOnce(respond({ data: { type: 'articles', id: '1', attributes: { title: 'Final' } } }));
+    const { articles } = createRegistry(request);
+
+    await getAction(articles, 'create')({ title: 'Draft', author: '9' });
+    expect(request.mock.calls[0][0]).toMatchObject({
+      method: 'post',
+      url: '/articles',
+      headers: { Accept: 'application/vnd.api+json', 'Content-Type': 'application/vnd.api+json' },
+      data: {
+        data: {
+          type: 'articles',
+          attributes: { title: 'Draft' },
+          relationships: { author: { data: { type: 'people', id: '9' } } },
+        },
+      },
+    });
+    expect(articles.getState().data!.get('1')).toMatchObject({ title: 'Draft', author: '9' });
+
+    await getAction(articles, 'update')({ id: '1', title: 'Final' }, { requestOptions: { headers: { Accept: 'application/json' } } });
+    expect(request.mock.calls[1][0]).toMatchObject({
+      url: '/articles/1',
+      headers: { Accept: 'application/json' },
+      data: { data: { type: 'articles', id: '1', attributes: { title: 'Final' } } },
+    });
+    expect(articles.getState().data!.get('1')).toMatchObject({ title: 'Final', author: '9' });
+  });
+
+  it('should route included resources to the configured stores', async () => {
+    const request = jest.fn().mockResolvedValue(respond({ data: ARTICLE, included: [PERSON] }));
+    const registry = createStoreRegistry<{ articles: Article; authors: Person }>({ transport: { request } });
+    const articles = registry('articles', {
+      route: '/articles',
+      format: 'jsonapi',
+      jsonApi: { stores: { people: 'authors' } },
+      actions: { get: true },
+    });
+    const authors = registry('authors', { route: '/authors', id: 'pk', actions: { get: true } });
+
+    await getAction(articles, 'get')({ id: '1' });
+    expect(articles.getState().data!.get('1')).toMatchObject({ title: 'Hello' });
+    expect(authors.getState().data!.get('9')).toEqual({ pk: '9', name: 'Ann' });
+  });
+
+  it('should send bulk items one by one as documents', async () => {
+    const request = jest.fn().mockImplementation(async ({ data }) => respond({
+      data: { type: 'articles', id: data.data.attributes.title, attributes: data.data.attributes },
+    }));
+    const { articles } = createRegistry(request);
+
+    const result = await getAction(articles, 'bulkCreate')([{ title: 'a' }, { title: 'b' }]);
+    expect(result.failed).toEqual([]);
+    expect(request.mock.calls[0][0].headers['Content-Type']).toBe('application/vnd.api+json');
+    expect(articles.getState().data!.get('b')).toEqual({ id: 'b', title: 'b' });
+  });
+});
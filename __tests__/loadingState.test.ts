@@ -53,6 +53,8 @@ describe('loadingState', () => {
         response: undefined,
         id: undefined,
         sequence: 0,
+        retryCount: 0,
+        isRetrying: false,
       });
     });
   });
@@ -89,6 +91,8 @@ describe('loadingState', () => {
         response: undefined,
         id: 123,
         sequence: 0,
+        retryCount: 0,
+        isRetrying: false,
       });
     });
 
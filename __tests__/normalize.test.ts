@@ -0,0 +1,177 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { getAction } from '../src/useActions';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+interface Comment {
+  id: number;
+  body: string;
+  author: User | number;
+}
+
+interface Post {
+  id: number;
+  title: string;
+  author: User | number;
+  comments?: (Comment | number)[];
+}
+
+type Models = { users: User; posts: Post; comments: Comment };
+
+const ann = { id: 1, name: 'Ann' };
+const bob = { id: 2, name: 'Bob' };
+
+describe('normalize', () => {
+  it('should move embedded entities of a list into their store', async () => {
+    const registry = createStoreRegistry<Models>();
+    const users = registry('users', { axios: jest.fn() as any, route: '/users' });
+    const axios = jest.fn().mockResolvedValue({
+      data: [
+        { id: 10, title: 'A', author: ann },
+        { id: 11, title: 'B', author: bob },
+        { id: 12, title: 'C', author: ann },
+      ],
+    });
+    const posts = registry('posts', {
+      axios: axios as any,
+      route: '/posts',
+      normalize: { author: 'users' },
+    });
+
+    await getAction(posts, 'getList')();
+
+    expect(Array.from(users.getState().data!.values())).toEqual([ann, bob]);
+    // Embedded objects are kept without replaceWithId
+    expect(posts.getState().data!.get('10')!.author).toEqual(ann);
+  });
+
+  it('should replace embedded entities with their ids', async () => {
+    const registry = createStoreRegistry<Models>();
+    const users = registry('users', { axios: jest.fn() as any, route: '/users' });
+    const axios = jest.fn().mockResolvedValue({ data: { id: 10, title: 'A', author: ann } });
+    const posts = registry('posts', {
+      axios: axios as any,
+      route: '/posts',
+      normalize: { author: { key: 'users', replaceWithId: true } },
+    });
+
+    await getAction(posts, 'get')({ id: 10 });
+
+    expect(posts.getState().data!.get('10')).toEqual({ id: 10, title: 'A', author: 1 });
+    expect(users.getState().data!.get('1')).toEqual(ann);
+  });
+
+  it('should update existing instances in the target store', async () => {
+    const registry = createStoreRegistry<Models>();
+    const users = registry('users', { axios: jest.fn() as any, route: '/users' });
+    users.setList([{ id: 1, name: 'Old' }, bob]);
+    const axios = jest.fn().mockResolvedValue({ data: { id: 10, title: 'A', author: ann } });
+    const posts = registry('posts', {
+      axios: axios as any,
+      route: '/posts',
+      normalize: { author: { key: 'users', replaceWithId: true } },
+    });
+    posts.setList([{ id: 10, title: 'Old', author: 1 }]);
+
+    await getAction(posts, 'update')({ id: 10, title: 'A' });
+
+    expect(Array.from(users.getState().data!.values())).toEqual([ann, bob]);
+    expect(posts.getState().data!.get('10')).toEqual({ id: 10, title: 'A', author: 1 });
+  });
+
+  it('should not change the pagination count of the target store', async () => {
+    const registry = createStoreRegistry<Models>();
+    const users = registry('users', { axios: jest.fn() as any, route: '/users', pagination: true });
+    users.setList([bob]);
+    users.setPagination({ count: 1 });
+    const axios = jest.fn().mockResolvedValue({ data: [{ id: 10, title: 'A', author: ann }] });
+    const posts = registry('posts', {
+      axios: axios as any,
+      route: '/posts',
+      normalize: { author: 'users' },
+    });
+
+    await getAction(posts, 'getList')();
+
+    expect(users.getState().data!.get('1')).toEqual(ann);
+    expect(users.getState().pagination.count).toBe(1);
+  });
+
+  it('should normalize arrays and nested levels', async () => {
+    const registry = createStoreRegistry<Models>();
+    const users = registry('users', { axios: jest.fn() as any, route: '/users' });
+    const comments = registry('comments', {
+      axios: jest.fn() as any,
+      route: '/comments',
+      normalize: { author: { key: 'users', replaceWithId: true } },
+    });
+    const axios = jest.fn().mockResolvedValue({
+      data: {
+        id: 10,
+        title: 'A',
+        author: ann,
+        comments: [
+          { id: 100, body: 'First', author: bob },
+          { id: 101, body: 'Second', author: ann },
+        ],
+      },
+    });
+    const posts = registry('posts', {
+      axios: axios as any,
+      route: '/posts',
+      normalize: {
+        author: { key: 'users', replaceWithId: true },
+        comments: { key: 'comments', replaceWithId: true },
+      },
+    });
+
+    await getAction(posts, 'create')({ title: 'A' });
+
+    expect(posts.getState().data!.get('10')).toEqual({ id: 10, title: 'A', author: 1, comments: [100, 101] });
+    expect(Array.from(comments.getState().data!.values())).toEqual([
+      { id: 100, body: 'First', author: 2 },
+      { id: 101, body: 'Second', author: 1 },
+    ]);
+    expect(Array.from(users.getState().data!.keys())).toEqual(['1', '2']);
+  });
+
+  it('should prefer a nested schema over the target store schema', async () => {
+    const registry = createStoreRegistry<Models>();
+    registry('users', { axios: jest.fn() as any, route: '/users' });
+    const comments = registry('comments', {
+      axios: jest.fn() as any,
+      route: '/comments',
+      normalize: { author: { key: 'users', replaceWithId: true } },
+    });
+    const axios = jest.fn().mockResolvedValue({
+      data: [{ id: 10, title: 'A', author: 1, comments: [{ id: 100, body: 'First', author: bob }] }],
+    });
+    const posts = registry('posts', {
+      axios: axios as any,
+      route: '/posts',
+      normalize: { comments: { key: 'comments', normalize: {} } },
+    });
+
+    await getAction(posts, 'getList')();
+
+    expect(comments.getState().data!.get('100')).toEqual({ id: 100, body: 'First', author: bob });
+  });
+
+  it('should leave entities embedded when the target store does not exist', async () => {
+    const registry = createStoreRegistry<Models>();
+    const axios = jest.fn().mockResolvedValue({ data: [{ id: 10, title: 'A', author: ann }] });
+    const posts = registry('posts', {
+      axios: axios as any,
+      route: '/posts',
+      normalize: { author: { key: 'users', replaceWithId: true } },
+    });
+
+    await getAction(posts, 'getList')();
+
+    expect(posts.getState().data!.get('10')!.author).toEqual(ann);
+    expect(registry.getStore('users')).toBeUndefined();
+  });
+});
@@ -52,7 +52,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.getList();
+      await expect(result.current.getList()).rejects.toBe(error);
     });
 
     expect(configOnError).toHaveBeenCalledTimes(1);
@@ -75,7 +75,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.create({ name: 'test' });
+      await expect(result.current.create({ name: 'test' })).rejects.toBe(error);
     });
 
     expect(configOnError).toHaveBeenCalledTimes(1);
@@ -98,7 +98,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.update({ id: 1, name: 'test' });
+      await expect(result.current.update({ id: 1, name: 'test' })).rejects.toBe(error);
     });
 
     expect(configOnError).toHaveBeenCalledTimes(1);
@@ -121,7 +121,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.delete({ id: 1, name: 'test' });
+      await expect(result.current.delete({ id: 1, name: 'test' })).rejects.toBe(error);
     });
 
     expect(configOnError).toHaveBeenCalledTimes(1);
@@ -147,7 +147,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.create({ name: 'test' });
+      await expect(result.current.create({ name: 'test' })).rejects.toBe(error);
     });
 
     expect(actionOnError).toHaveBeenCalledTimes(1);
@@ -174,7 +174,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.getList({ onError: callerOnError });
+      await expect(result.current.getList({ onError: callerOnError })).rejects.toBe(error);
     });
 
     expect(configOnError).toHaveBeenCalledTimes(1);
@@ -204,7 +204,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.archive();
+      await expect(result.current.archive()).rejects.toBe(error);
     });
 
     expect(configOnError).toHaveBeenCalledTimes(1);
@@ -231,7 +231,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.archive();
+      await expect(result.current.archive()).rejects.toBe(error);
     });
 
     expect(customOnError).toHaveBeenCalledTimes(1);
@@ -258,7 +258,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.archive(null, { onError: callerOnError });
+      await expect(result.current.archive(null, { onError: callerOnError })).rejects.toBe(error);
     });
 
     expect(customOnError).toHaveBeenCalledTimes(1);
@@ -281,7 +281,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.getList();
+      await expect(result.current.getList()).rejects.toBe(error);
     });
 
     // Should still set error state on loading state
@@ -306,7 +306,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.getList();
+      await expect(result.current.getList()).rejects.toBe(error);
     });
 
     expect(consoleSpy).not.toHaveBeenCalled();
@@ -326,7 +326,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.getList({ onError: jest.fn() });
+      await expect(result.current.getList({ onError: jest.fn() })).rejects.toBe(error);
     });
 
     expect(consoleSpy).not.toHaveBeenCalled();
@@ -347,7 +347,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.getList({ onError: jest.fn() });
+      await expect(result.current.getList({ onError: jest.fn() })).rejects.toBe(error);
     });
 
     expect(consoleSpy).not.toHaveBeenCalled();
@@ -367,7 +367,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.getList();
+      await expect(result.current.getList()).rejects.toBe(error);
     });
 
     expect(consoleSpy).toHaveBeenCalledTimes(1);
@@ -391,7 +391,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.archive();
+      await expect(result.current.archive()).rejects.toBe(error);
     });
 
     expect(consoleSpy).not.toHaveBeenCalled();
@@ -416,7 +416,7 @@ describe('config-level onError', () => {
     const { result } = renderHook(() => useCrud(store));
 
     await act(async () => {
-      await result.current.archive();
+      await expect(result.current.archive()).rejects.toBe(error);
     });
 
     // Error should be on 'archive' key, not 'custom'
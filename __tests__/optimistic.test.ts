@@ -0,0 +1,255 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { useCrud } from '../src/useCrud';
+import { OptimisticRollbackError } from '../src/useActions';
+import { renderHook, act } from '@testing-library/react';
+
+const mockAxios = jest.fn();
+Object.assign(mockAxios, {
+  get: jest.fn(),
+  post: jest.fn(),
+  patch: jest.fn(),
+  put: jest.fn(),
+  delete: jest.fn(),
+  create: jest.fn(),
+  defaults: {},
+  interceptors: {
+    request: { use: jest.fn(), eject: jest.fn() },
+    response: { use: jest.fn(), eject: jest.fn() },
+  },
+});
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+const items: Item[] = [
+  { id: 1, name: 'One' },
+  { id: 2, name: 'Two' },
+  { id: 3, name: 'Three' },
+];
+
+/** Returns a promise whose resolution is controlled by the test. */
+const deferred = () => {
+  let resolve: (value: any) => void = () => {};
+  let reject: (error: any) => void = () => {};
+  const promise = new Promise((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+describe('optimistic updates', () => {
+  let consoleSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  describe('store snapshots', () => {
+    it('should restore updated, deleted and created instances in place', () => {
+      const getOrCreate = createStoreRegistry<{ items: Item }>();
+      const store = getOrCreate('items', {
+        axios: mockAxios as any,
+        route: '/items',
+        pagination: true,
+        select: 'multiple',
+      });
+      store.setList(items);
+      store.setPagination({ count: 3 });
+      store.setSelectedIds(['2']);
+
+      const snapshot = store.getState().snapshotInstances(['1', '2', '4']);
+      store.updateInstance({ id: 1, name: 'Changed' });
+      store.deleteInstance({ id: 2, name: 'Two' });
+      store.setInstance({ id: 4, name: 'Four' });
+      expect(store.getState().pagination.count).toBe(3);
+
+      store.restoreInstances(snapshot);
+
+      const state = store.getState();
+      expect(Array.from(state.data!.values())).toEqual(items);
+      expect(state.pagination.count).toBe(3);
+      expect(state.selectedIds).toEqual(['2']);
+    });
+
+    it('should restore a null data Map', () => {
+      const getOrCreate = createStoreRegistry<{ items: Item }>();
+      const store = getOrCreate('items', { axios: mockAxios as any, route: '/items' });
+
+      const snapshot = store.getState().snapshotInstances(['1']);
+      store.setInstance(items[0]);
+      store.restoreInstances(snapshot);
+
+      expect(store.getState().data).toBeNull();
+    });
+  });
+
+  describe('actions', () => {
+    it('should apply an optimistic update before the request resolves', async () => {
+      const request = deferred();
+      mockAxios.mockReturnValueOnce(request.promise);
+
+      const getOrCreate = createStoreRegistry<{ items: Item }>();
+      const store = getOrCreate('items', {
+        axios: mockAxios as any,
+        route: '/items',
+        actions: { update: { optimistic: true } },
+      });
+      store.setList(items);
+
+      const { result } = renderHook(() => useCrud(store));
+
+      let pending: Promise<any>;
+      await act(async () => {
+        pending = result.current.update({ id: 2, name: 'Optimistic' });
+      });
+      expect(store.getState().data!.get('2')).toEqual({ id: 2, name: 'Optimistic' });
+
+      await act(async () => {
+        request.resolve({ data: { id: 2, name: 'Server' } });
+        await pending;
+      });
+      expect(store.getState().data!.get('2')).toEqual({ id: 2, name: 'Server' });
+      expect(result.current.update.error).toBeNull();
+    });
+
+    it('should roll back a failed update and expose the rollback in loadingState.error', async () => {
+      const error = new Error('update failed');
+      const onError = jest.fn();
+      mockAxios.mockRejectedValueOnce(error);
+
+      const getOrCreate = createStoreRegistry<{ items: Item }>();
+      const store = getOrCreate('items', {
+        axios: mockAxios as any,
+        route: '/items',
+        actions: { update: { optimistic: true } },
+        onError,
+      });
+      store.setList(items);
+
+      const { result } = renderHook(() => useCrud(store));
+
+      await act(async () => {
+        await expect(result.current.update({ id: 2, name: 'Optimistic' })).rejects.toBe(error);
+      });
+
+      expect(store.getState().data!.get('2')).toEqual(items[1]);
+      expect(onError).toHaveBeenCalledWith(error);
+      expect(result.current.update.error).toBeInstanceOf(OptimisticRollbackError);
+      expect(result.current.update.error.cause).toBe(error);
+      expect(result.current.update.error.ids).toEqual(['2']);
+    });
+
+    it('should roll back a failed delete including pagination count and position', async () => {
+      mockAxios.mockRejectedValueOnce(new Error('delete failed'));
+
+      const getOrCreate = createStoreRegistry<{ items: Item }>();
+      const store = getOrCreate('items', {
+        axios: mockAxios as any,
+        route: '/items',
+        actions: { delete: { optimistic: true } },
+        pagination: true,
+      });
+      store.setList(items);
+      store.setPagination({ count: 3 });
+
+      const { result } = renderHook(() => useCrud(store));
+
+      await act(async () => {
+        await expect(result.current.delete(items[1])).rejects.toThrow('delete failed');
+      });
+
+      expect(Array.from(store.getState().data!.keys())).toEqual(['1', '2', '3']);
+      expect(store.getState().pagination.count).toBe(3);
+    });
+
+    it('should decrement the count only once for a successful optimistic delete', async () => {
+      mockAxios.mockResolvedValueOnce({ data: null });
+
+      const getOrCreate = createStoreRegistry<{ items: Item }>();
+      const store = getOrCreate('items', {
+        axios: mockAxios as any,
+        route: '/items',
+        actions: { delete: { optimistic: true } },
+        pagination: true,
+      });
+      store.setList(items);
+      store.setPagination({ count: 3 });
+
+      const { result } = renderHook(() => useCrud(store));
+
+      await act(async () => {
+        await result.current.delete(items[0]);
+      });
+
+      expect(store.getState().data!.has('1')).toBe(false);
+      expect(store.getState().pagination.count).toBe(2);
+    });
+
+    it('should replace a temporary instance after an optimistic create', async () => {
+      const request = deferred();
+      mockAxios.mockReturnValueOnce(request.promise);
+
+      const getOrCreate = createStoreRegistry<{ items: Item }>();
+      const store = getOrCreate('items', {
+        axios: mockAxios as any,
+        route: '/items',
+        actions: { create: true },
+        pagination: true,
+      });
+      store.setList(items);
+      store.setPagination({ count: 3 });
+
+      const { result } = renderHook(() => useCrud(store));
+
+      let pending: Promise<any>;
+      await act(async () => {
+        pending = result.current.create({ name: 'New' }, { optimistic: true });
+      });
+
+      const temporary = Array.from(store.getState().data!.values())[3];
+      expect(temporary.name).toBe('New');
+      expect(String(temporary.id)).toMatch(/^optimistic-/);
+      expect(store.getState().pagination.count).toBe(4);
+
+      await act(async () => {
+        request.resolve({ data: { id: 4, name: 'New' } });
+        await pending;
+      });
+
+      expect(Array.from(store.getState().data!.keys())).toEqual(['1', '2', '3', '4']);
+      expect(store.getState().pagination.count).toBe(4);
+    });
+
+    it('should let the caller disable a configured optimistic action', async () => {
+      const request = deferred();
+      mockAxios.mockReturnValueOnce(request.promise);
+
+      const getOrCreate = createStoreRegistry<{ items: Item }>();
+      const store = getOrCreate('items', {
+        axios: mockAxios as any,
+        route: '/items',
+        actions: { update: { optimistic: true } },
+      });
+      store.setList(items);
+
+      const { result } = renderHook(() => useCrud(store));
+
+      let pending: Promise<any>;
+      await act(async () => {
+        pending = result.current.update({ id: 1, name: 'Later' }, { optimistic: false });
+      });
+      expect(store.getState().data!.get('1')).toEqual(items[0]);
+
+      await act(async () => {
+        request.resolve({ data: { id: 1, name: 'Later' } });
+        await pending;
+      });
+      expect(store.getState().data!.get('1')).toEqual({ id: 1, name: 'Later' });
+    });
+  });
+});
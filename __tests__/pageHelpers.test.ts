@@ -0,0 +1,174 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { usePagination, getPage, getPageCount } from '../src/usePagination';
+import { getAction } from '../src/useActions';
+import { renderHook, act } from '@testing-library/react';
+
+interface Item {
+  id: number;
+}
+
+const createAxios = () => jest.fn((config: any) => Promise.resolve({
+  data: { results: [{ id: config.params.offset }], count: 45 },
+}));
+
+const createStore = (axios: any) =>
+  createStoreRegistry<{ items: Item }>()('items', {
+    axios: axios as any,
+    route: '/items',
+    actions: { getList: true },
+    pagination: {
+      limit: 10,
+      prepare: (data: any) => ({ count: data.count }),
+      prepareParams: ({ offset, limit }: any) => ({ offset, limit }),
+      extractList: (data: any) => data.results,
+    },
+  });
+
+describe('usePagination page helpers', () => {
+  it('should compute the page and page count', () => {
+    expect(getPage({ count: 45, offset: 20, limit: 10 })).toBe(3);
+    expect(getPageCount({ count: 45, offset: 20, limit: 10 })).toBe(5);
+    expect(getPageCount({ count: 0, offset: 0, limit: 10 })).toBe(1);
+    expect(getPage({ count: 45, offset: 0, limit: 0 })).toBe(1);
+    expect(getPage(null)).toBe(1);
+  });
+
+  it('should fetch the page it moves to', async () => {
+    const axios = createAxios();
+    const store = createStore(axios);
+    store.setPagination({ count: 45 });
+
+    const { result } = renderHook(() => usePagination(store));
+    expect(result.current.page).toBe(1);
+    expect(result.current.pageCount).toBe(5);
+
+    await act(async () => { await result.current.goToPage(3); });
+    expect(axios).toHaveBeenLastCalledWith(expect.objectContaining({ params: { offset: 20, limit: 10 } }));
+    expect(result.current.page).toBe(3);
+    expect(store.getState().data!.has('20')).toBe(true);
+
+    await act(async () => { await result.current.nextPage(); });
+    expect(result.current.page).toBe(4);
+
+    await act(async () => { await result.current.prevPage(); });
+    await act(async () => { await result.current.prevPage(); });
+    expect(result.current.page).toBe(2);
+    expect(axios).toHaveBeenCalledTimes(4);
+  });
+
+  it('should clamp pages and skip moves that change nothing', async () => {
+    const axios = createAxios();
+    const store = createStore(axios);
+    store.setPagination({ count: 45 });
+
+    const { result } = renderHook(() => usePagination(store));
+    await act(async () => { await result.current.goToPage(99); });
+    expect(result.current.page).toBe(5);
+
+    await act(async () => { await result.current.nextPage(); });
+    await act(async () => { await result.current.goToPage(5); });
+    expect(axios).toHaveBeenCalledTimes(1);
+
+    await act(async () => { await result.current.goToPage(-1); });
+    expect(result.current.page).toBe(1);
+    await act(async () => { await result.current.prevPage(); });
+    expect(axios).toHaveBeenCalledTimes(2);
+  });
+
+  it('should change the page size and keep the first item in view', async () => {
+    const axios = createAxios();
+    const store = createStore(axios);
+    store.setPagination({ count: 45, offset: 30 });
+
+    const { result } = renderHook(() => usePagination(store));
+    await act(async () => { await result.current.setPageSize(25); });
+
+    expect(axios).toHaveBeenLastCalledWith(expect.objectContaining({ params: { offset: 25, limit: 25 } }));
+    expect(result.current.page).toBe(2);
+    expect(result.current.pageCount).toBe(2);
+  });
+
+  it('should only update the pagination with manual refetch', async () => {
+    const axios = createAxios();
+    const store = createStore(axios);
+    store.setPagination({ count: 45 });
+
+    const { result } = renderHook(() => usePagination(store, { refetch: 'manual' }));
+    await act(async () => {
+      await result.current.goToPage(2);
+      await result.current.nextPage();
+      await result.current.setPageSize(5);
+    });
+
+    expect(axios).not.toHaveBeenCalled();
+    expect(result.current.pagination).toEqual({ count: 45, offset: 20, limit: 5 });
+  });
+
+  it('should fetch again when setPagination moves the offset or limit', async () => {
+    const axios = createAxios();
+    const store = createStore(axios);
+
+    const { result } = renderHook(() => usePagination(store));
+    expect(result.current.page).toBe(1);
+    expect(result.current.pageCount).toBe(1);
+
+    await act(async () => { result.current.setPagination({ count: 45 }); });
+    expect(axios).not.toHaveBeenCalled();
+
+    await act(async () => { result.current.setPagination({ offset: 10 }); });
+    expect(axios).toHaveBeenLastCalledWith(expect.objectContaining({ params: { offset: 10, limit: 10 } }));
+    expect(result.current.page).toBe(2);
+
+    await act(async () => { result.current.setPagination({ offset: 10, limit: 10 }); });
+    expect(axios).toHaveBeenCalledTimes(1);
+  });
+
+  it('should set the pagination of stores without a getList action', () => {
+    const store = createStoreRegistry<{ items: Item }>()('items', {
+      axios: jest.fn() as any,
+      route: '/items',
+      actions: { get: true },
+      pagination: true,
+    });
+
+    const { result } = renderHook(() => usePagination(store));
+    act(() => { result.current.setPagination({ offset: 20 }); });
+    expect(result.current.pagination!.offset).toBe(20);
+  });
+
+  it('should fetch the new page after the list in flight', async () => {
+    const resolvers: (() => void)[] = [];
+    const axios = jest.fn((config: any) => new Promise((resolve) => {
+      resolvers.push(() => resolve({ data: { results: [{ id: config.params.offset }], count: 45 } }));
+    }));
+    const store = createStore(axios);
+    const { result } = renderHook(() => usePagination(store));
+
+    let first: Promise<any>;
+    act(() => { first = getAction(store, 'getList')(); });
+    await act(async () => { result.current.setPagination({ limit: 50 }); });
+    expect(result.current.pagination!.limit).toBe(50);
+    expect(axios).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      resolvers[0]();
+      await first!;
+    });
+    await act(async () => { await new Promise((r) => setTimeout(r, 0)); });
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(axios).toHaveBeenLastCalledWith(expect.objectContaining({ params: { offset: 0, limit: 50 } }));
+  });
+
+  it('should page query lists', async () => {
+    const axios = createAxios();
+    const store = createStore(axios);
+
+    const { result } = renderHook(() => usePagination(store, { params: { q: 'a' } }));
+    act(() => { result.current.setPagination({ count: 45 }); });
+    await act(async () => { await result.current.goToPage(2); });
+
+    expect(axios).toHaveBeenLastCalledWith(expect.objectContaining({ params: { offset: 10, limit: 10, q: 'a' } }));
+    expect(result.current.page).toBe(2);
+    expect(store.getState().pagination.offset).toBe(0);
+  });
+});
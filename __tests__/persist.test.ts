@@ -0,0 +1,213 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import {
+  createMemoryStorage,
+  serializeState,
+  deserializeState,
+  clearPersistedStore,
+} from '../src/persist';
+import type { PersistStorage } from '../src/persist';
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+const items: Item[] = [
+  { id: 3, name: 'Three' },
+  { id: 1, name: 'One' },
+  { id: 2, name: 'Two' },
+];
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+describe('persistence', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  describe('serialization', () => {
+    it('should round-trip the data Map with its key order', () => {
+      const data = new Map(items.map((item) => [String(item.id), item]));
+      const { version, state } = deserializeState(serializeState({
+        data,
+        pagination: { count: 10, offset: 0, limit: 3 },
+        state: { filter: 'all' },
+        selectedIds: ['1'],
+      }, 2));
+
+      expect(version).toBe(2);
+      expect(state.data).toBeInstanceOf(Map);
+      expect(Array.from(state.data!.entries())).toEqual(Array.from(data.entries()));
+      expect(state.pagination).toEqual({ count: 10, offset: 0, limit: 3 });
+      expect(state.state).toEqual({ filter: 'all' });
+      expect(state.selectedIds).toEqual(['1']);
+    });
+
+    it('should keep a null data Map', () => {
+      const { state } = deserializeState(serializeState({
+        data: null, pagination: null, state: {}, selectedIds: [],
+      }, 0));
+      expect(state.data).toBeNull();
+    });
+  });
+
+  describe('stores', () => {
+    it('should save to localStorage and rehydrate a new registry', () => {
+      const config = {
+        axios: jest.fn() as any,
+        route: '/items',
+        pagination: true as const,
+        select: 'multiple' as const,
+        state: { filter: 'all' },
+        persist: { storage: 'localStorage' as const },
+      };
+      const store = createStoreRegistry<{ items: Item }>()('items', config);
+      store.setList(items);
+      store.setPagination({ count: 30 });
+      store.setSelectedIds(['2']);
+      store.patchState({ filter: 'active' });
+
+      expect(window.localStorage.getItem('zustand-crud-registry:items')).not.toBeNull();
+
+      const rehydrated = createStoreRegistry<{ items: Item }>()('items', config).getState();
+      expect(Array.from(rehydrated.data!.keys())).toEqual(['3', '1', '2']);
+      expect(rehydrated.pagination.count).toBe(30);
+      expect(rehydrated.selectedIds).toEqual(['2']);
+      expect(rehydrated.state).toEqual({ filter: 'active' });
+    });
+
+    it('should only persist the main list', () => {
+      const config = {
+        axios: jest.fn() as any,
+        route: '/items',
+        persist: { storage: 'localStorage' as const },
+      };
+      const store = createStoreRegistry<{ items: Item }>()('items', config);
+      store.setList([items[0]]);
+      store.getState().setQueryList('q', [items[1], items[2]]);
+
+      const rehydrated = createStoreRegistry<{ items: Item }>()('items', config).getState();
+      expect(Array.from(rehydrated.data!.keys())).toEqual(['3']);
+      expect(rehydrated.listIds).toEqual(['3']);
+    });
+
+    it('should not touch storage without the persist option', () => {
+      const store = createStoreRegistry<{ items: Item }>()('items', {
+        axios: jest.fn() as any,
+        route: '/items',
+      });
+      store.setList(items);
+      expect(window.localStorage.length).toBe(0);
+    });
+
+    it('should use a custom name and storage adapter', () => {
+      const storage = createMemoryStorage();
+      const config = {
+        axios: jest.fn() as any,
+        route: '/items',
+        persist: { storage, name: 'my-items' },
+      };
+      createStoreRegistry<{ items: Item }>()('items', config).setList(items);
+
+      expect(storage.getItem('my-items')).not.toBeNull();
+      expect(createStoreRegistry<{ items: Item }>()('items', config).getState().data!.size).toBe(3);
+    });
+
+    it('should discard state from another version without migrate', () => {
+      const storage = createMemoryStorage();
+      createStoreRegistry<{ items: Item }>()('items', {
+        axios: jest.fn() as any,
+        route: '/items',
+        persist: { storage, version: 1 },
+      }).setList(items);
+
+      const store = createStoreRegistry<{ items: Item }>()('items', {
+        axios: jest.fn() as any,
+        route: '/items',
+        persist: { storage, version: 2 },
+      });
+      expect(store.getState().data).toBeNull();
+    });
+
+    it('should migrate state from an older version', () => {
+      const storage = createMemoryStorage();
+      createStoreRegistry<{ items: Item }>()('items', {
+        axios: jest.fn() as any,
+        route: '/items',
+        persist: { storage, version: 1 },
+      }).setList(items);
+
+      const migrate = jest.fn((persisted: any, version: number) => ({
+        ...persisted,
+        data: new Map(Array.from(persisted.data.entries() as Iterable<[string, Item]>).map(
+          ([id, item]) => [id, { ...item, name: item.name.toUpperCase() }]
+        )),
+      }));
+      const store = createStoreRegistry<{ items: Item }>()('items', {
+        axios: jest.fn() as any,
+        route: '/items',
+        persist: { storage, version: 2, migrate },
+      });
+
+      expect(migrate).toHaveBeenCalledWith(expect.any(Object), 1);
+      expect(store.getState().data!.get('1')).toEqual({ id: 1, name: 'ONE' });
+    });
+
+    it('should rehydrate from an async adapter', async () => {
+      const memory = createMemoryStorage();
+      const storage: PersistStorage = {
+        getItem: (name) => Promise.resolve(memory.getItem(name)),
+        setItem: (name, value) => Promise.resolve(memory.setItem(name, value)),
+        removeItem: (name) => Promise.resolve(memory.removeItem(name)),
+      };
+      memory.setItem('zustand-crud-registry:items', serializeState({
+        data: new Map([['1', items[1]]]), pagination: null, state: {}, selectedIds: [],
+      }, 0));
+
+      const store = createStoreRegistry<{ items: Item }>()('items', {
+        axios: jest.fn() as any,
+        route: '/items',
+        persist: { storage },
+      });
+      expect(store.getState().data).toBeNull();
+
+      await flush();
+      expect(store.getState().data!.get('1')).toEqual(items[1]);
+    });
+
+    it('should keep data received before async rehydration finished', async () => {
+      const memory = createMemoryStorage();
+      const storage: PersistStorage = {
+        getItem: (name) => Promise.resolve(memory.getItem(name)),
+        setItem: (name, value) => memory.setItem(name, value),
+        removeItem: (name) => memory.removeItem(name),
+      };
+      memory.setItem('zustand-crud-registry:items', serializeState({
+        data: new Map([['1', { id: 1, name: 'Persisted' }]]), pagination: null, state: {}, selectedIds: [],
+      }, 0));
+
+      const store = createStoreRegistry<{ items: Item }>()('items', {
+        axios: jest.fn() as any,
+        route: '/items',
+        persist: { storage },
+      });
+      store.setList([{ id: 1, name: 'Fetched' }]);
+
+      await flush();
+      expect(store.getState().data!.get('1')).toEqual({ id: 1, name: 'Fetched' });
+    });
+
+    it('should clear the persisted state', () => {
+      const store = createStoreRegistry<{ items: Item }>()('items', {
+        axios: jest.fn() as any,
+        route: '/items',
+        persist: { storage: 'sessionStorage' },
+      });
+      store.setList(items);
+      expect(window.sessionStorage.getItem('zustand-crud-registry:items')).not.toBeNull();
+
+      clearPersistedStore(store);
+      expect(window.sessionStorage.getItem('zustand-crud-registry:items')).toBeNull();
+    });
+  });
+});
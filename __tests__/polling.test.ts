@@ -0,0 +1,153 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { useGetList } from '../src/useGetList';
+import { useGet } from '../src/useGet';
+import { useCrud } from '../src/useCrud';
+import { getPollDelay } from '../src/polling';
+import { renderHook, act } from '@testing-library/react';
+
+interface Job {
+  id: number;
+  status: string;
+}
+
+const createStore = (axios: any, actions: object = { getList: true, get: true }) =>
+  createStoreRegistry<{ jobs: Job }>()('jobs', {
+    axios: axios as any,
+    route: '/jobs',
+    actions,
+  });
+
+const advance = (ms: number) => act(async () => { await jest.advanceTimersByTimeAsync(ms); });
+
+const setHidden = (hidden: boolean) => {
+  Object.defineProperty(document, 'visibilityState', { configurable: true, value: hidden ? 'hidden' : 'visible' });
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+describe('polling', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => {
+    jest.useRealTimers();
+    setHidden(false);
+  });
+
+  it('should double the interval per error, up to 32 times', () => {
+    expect(getPollDelay(1000, 0)).toBe(1000);
+    expect(getPollDelay(1000, 2)).toBe(4000);
+    expect(getPollDelay(1000, 10)).toBe(32000);
+  });
+
+  it('should poll once per interval for all mounted hooks', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: [{ id: 1, status: 'queued' }] });
+    const store = createStore(axios);
+
+    const first = renderHook(() => useGetList(store, { refetchInterval: 1000 }));
+    const second = renderHook(() => useGetList(store, { refetchInterval: 1000 }));
+    await advance(0);
+    expect(axios).toHaveBeenCalledTimes(1);
+
+    await advance(1000);
+    expect(axios).toHaveBeenCalledTimes(2);
+    await advance(1000);
+    expect(axios).toHaveBeenCalledTimes(3);
+
+    first.unmount();
+    await advance(1000);
+    expect(axios).toHaveBeenCalledTimes(4);
+
+    second.unmount();
+    await advance(5000);
+    expect(axios).toHaveBeenCalledTimes(4);
+  });
+
+  it('should use the shortest interval of the mounted hooks', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: [] });
+    const store = createStore(axios);
+
+    renderHook(() => useGetList(store, { refetchInterval: 5000 }));
+    await advance(0);
+    const fast = renderHook(() => useGetList(store, { refetchInterval: 1000 }));
+    await advance(1000);
+    expect(axios).toHaveBeenCalledTimes(2);
+
+    // The poll that was already scheduled still runs
+    fast.unmount();
+    await advance(1000);
+    expect(axios).toHaveBeenCalledTimes(3);
+    await advance(4000);
+    expect(axios).toHaveBeenCalledTimes(3);
+    await advance(1000);
+    expect(axios).toHaveBeenCalledTimes(4);
+  });
+
+  it('should pause while the document is hidden', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: [] });
+    const store = createStore(axios);
+
+    renderHook(() => useGetList(store, { refetchInterval: 1000 }));
+    await advance(0);
+    setHidden(true);
+    await advance(5000);
+    expect(axios).toHaveBeenCalledTimes(1);
+
+    await act(async () => { setHidden(false); });
+    expect(axios).toHaveBeenCalledTimes(2);
+    await advance(1000);
+    expect(axios).toHaveBeenCalledTimes(3);
+  });
+
+  it('should back off after consecutive errors', async () => {
+    const axios = jest.fn().mockRejectedValue(new Error('Network'));
+    const store = createStore(axios, { getList: { refetchInterval: 1000, onError: () => {} } });
+
+    renderHook(() => useGetList(store));
+    await advance(0);
+    // The failed first fetch is not retried on mount
+    await advance(1000);
+    expect(axios).toHaveBeenCalledTimes(2);
+    await advance(1000);
+    expect(axios).toHaveBeenCalledTimes(2);
+    await advance(1000);
+    expect(axios).toHaveBeenCalledTimes(3);
+
+    axios.mockResolvedValue({ data: [] });
+    await advance(4000);
+    expect(axios).toHaveBeenCalledTimes(4);
+    await advance(1000);
+    expect(axios).toHaveBeenCalledTimes(5);
+  });
+
+  it('should poll instances with the action refetchInterval', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: { id: 1, status: 'running' } });
+    const store = createStore(axios, { get: { refetchInterval: 2000 } });
+
+    renderHook(() => useGet(store, 1));
+    await advance(0);
+    await advance(2000);
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(axios).toHaveBeenLastCalledWith(expect.objectContaining({ url: '/jobs/1' }));
+  });
+
+  it('should poll from useCrud on the action interval or its own', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: [] });
+    const store = createStore(axios, { getList: { refetchInterval: 1000 } });
+
+    const plain = renderHook(() => useCrud(store));
+    await advance(3000);
+    expect(axios).toHaveBeenCalledTimes(3);
+    plain.unmount();
+
+    renderHook(() => useCrud(store, null, { refetchInterval: 500 }));
+    await advance(1000);
+    expect(axios).toHaveBeenCalledTimes(5);
+  });
+
+  it('should not poll from useCrud without an interval', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: [] });
+    const store = createStore(axios);
+
+    renderHook(() => useCrud(store));
+    await advance(3000);
+    expect(axios).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,277 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { useGetList } from '../src/useGetList';
+import { useGet } from '../src/useGet';
+import { useList } from '../src/useList';
+import { usePagination } from '../src/usePagination';
+import { getAction } from '../src/useActions';
+import { getQueryKey } from '../src/queries';
+import { renderHook, act } from '@testing-library/react';
+
+interface User {
+  id: number;
+  name: string;
+  active: boolean;
+}
+
+const ann = { id: 1, name: 'Ann', active: true };
+const bob = { id: 2, name: 'Bob', active: false };
+const cat = { id: 3, name: 'Cat', active: true };
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+// Responds with the users matching the `active` param
+const createAxios = () => jest.fn((config: any) => Promise.resolve({
+  data: [ann, bob, cat].filter((user) => config.params?.active === undefined || user.active === config.params.active),
+}));
+
+const createStore = (axios: any, extra: object = {}) =>
+  createStoreRegistry<{ users: User }>()('users', {
+    axios: axios as any,
+    route: '/users',
+    select: 'multiple',
+    ...extra,
+  });
+
+describe('query-keyed lists', () => {
+  it('should build the same key for params in any order', () => {
+    expect(getQueryKey({ a: 1, b: [2, { d: 1, c: 2 }] })).toBe(getQueryKey({ b: [2, { c: 2, d: 1 }], a: 1 }));
+    expect(getQueryKey({ a: 1 })).not.toBe(getQueryKey({ a: 2 }));
+    expect(getQueryKey(undefined)).toBe(getQueryKey({}));
+  });
+
+  it('should keep separate lists next to the main list', async () => {
+    const axios = createAxios();
+    const store = createStore(axios);
+
+    const { result } = renderHook(() => ({
+      all: useGetList(store),
+      active: useGetList(store, { params: { active: true } }),
+    }));
+    await act(async () => { await flush(); });
+
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(result.current.all[0]).toEqual([ann, bob, cat]);
+    expect(result.current.active[0]).toEqual([ann, cat]);
+    expect(store.getState().queries[getQueryKey({ active: true })].params).toEqual({ active: true });
+  });
+
+  it('should not replace the data or clear the selection', async () => {
+    const axios = createAxios();
+    const store = createStore(axios);
+    store.setList([ann, bob, cat]);
+    store.setSelectedIds(['2']);
+
+    await getAction(store, 'getList')({ params: { active: true }, queryKey: getQueryKey({ active: true }) });
+
+    expect(store.getState().data!.size).toBe(3);
+    expect(store.getState().selectedIds).toEqual(['2']);
+    expect(store.getState().queries[getQueryKey({ active: true })].ids).toEqual(['1', '3']);
+  });
+
+  it('should reflect instance updates and deletes in every list', async () => {
+    const store = createStore(createAxios());
+    const { result } = renderHook(() => ({
+      all: useGetList(store),
+      active: useGetList(store, { params: { active: true } }),
+    }));
+    await act(async () => { await flush(); });
+
+    act(() => { store.updateInstance({ ...ann, name: 'Anne' }); });
+    expect(result.current.all[0]![0].name).toBe('Anne');
+    expect(result.current.active[0]![0].name).toBe('Anne');
+
+    act(() => { store.deleteInstance(cat); });
+    expect(result.current.active[0]).toEqual([{ ...ann, name: 'Anne' }]);
+  });
+
+  it('should keep query results out of the main list', async () => {
+    const store = createStore(createAxios());
+    store.setList([bob]);
+
+    const { result } = renderHook(() => ({
+      all: useGetList(store),
+      active: useGetList(store, { params: { active: true } }),
+    }));
+    await act(async () => { await flush(); });
+    expect(result.current.active[0]).toEqual([ann, cat]);
+
+    act(() => { store.setList([bob]); });
+    expect(store.getState().listIds).toEqual(['2']);
+    expect(result.current.all[0]).toEqual([bob]);
+    expect(result.current.active[0]).toEqual([ann, cat]);
+  });
+
+  it('should keep query instances when the main list is fetched again', async () => {
+    const axios = jest.fn((config: any) => Promise.resolve({
+      data: config.params?.active ? [ann, cat] : [{ ...bob, name: 'Bobby' }],
+    }));
+    const store = createStore(axios);
+    const getList = getAction(store, 'getList');
+
+    await getList({ params: { active: true }, queryKey: getQueryKey({ active: true }) });
+    await getList();
+
+    const { result } = renderHook(() => ({
+      all: useGetList(store),
+      active: useGetList(store, { params: { active: true } }),
+    }));
+    expect(result.current.all[0]).toEqual([{ ...bob, name: 'Bobby' }]);
+    expect(result.current.active[0]).toEqual([ann, cat]);
+  });
+
+  it('should share instance updates between the main list and query lists', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: [{ ...ann, name: 'Anne' }] });
+    const store = createStore(axios);
+    store.setList([ann, bob]);
+
+    await getAction(store, 'getList')({ params: { q: 'a' }, queryKey: getQueryKey({ q: 'a' }) });
+    expect(store.getState().data!.get('1')).toEqual({ ...ann, name: 'Anne' });
+    expect(store.getState().data!.size).toBe(2);
+
+    store.updateInstance({ ...ann, name: 'Ann' });
+    expect(store.getState().data!.get('1')).toEqual(ann);
+    expect(store.getState().queries[getQueryKey({ q: 'a' })].ids).toEqual(['1']);
+  });
+
+  it('should find query list instances without adding them to the main list', async () => {
+    const axios = createAxios();
+    const store = createStore(axios, { actions: { getList: true, get: true } });
+    store.setList([bob]);
+
+    const { result } = renderHook(() => ({
+      active: useGetList(store, { params: { active: true } }),
+      list: useList(store),
+    }));
+    await act(async () => { await flush(); });
+    expect(result.current.active[0]).toEqual([ann, cat]);
+
+    const { result: detail } = renderHook(() => useGet(store, 3));
+    await act(async () => { await flush(); });
+    expect(detail.current[0]).toEqual(cat);
+    expect(axios).toHaveBeenCalledTimes(1);
+
+    act(() => { store.setInstance({ ...cat, name: 'Cathy' }); });
+    expect(result.current.list).toEqual([bob]);
+    expect(result.current.active[0]).toEqual([ann, { ...cat, name: 'Cathy' }]);
+  });
+
+  it('should let go of instances no list holds any more', () => {
+    const store = createStore(createAxios());
+    store.setList([bob]);
+    store.getState().setQueryList('q', [ann, bob]);
+    store.getState().setQueryList('q', [cat]);
+
+    expect(Array.from(store.getState().data!.keys())).toEqual(['2', '3']);
+    expect(store.getState().listIds).toEqual(['2']);
+  });
+
+  it('should put deleted instances back in every list on rollback', () => {
+    const store = createStore(createAxios());
+    store.setList([ann, bob]);
+    store.getState().setQueryList('q', [cat, ann]);
+
+    const snapshot = store.snapshotInstances(['1']);
+    store.deleteInstance(ann);
+    expect(store.getState().queries.q.ids).toEqual(['3']);
+
+    store.restoreInstances(snapshot);
+    expect(store.getState().listIds).toEqual(['1', '2']);
+    expect(store.getState().queries.q.ids).toEqual(['3', '1']);
+  });
+
+  it('should lower the count of query lists holding a deleted instance', async () => {
+    const axios = jest.fn((config: any) => Promise.resolve({
+      data: { results: config.params?.active ? [ann, cat] : [bob], count: 10 },
+    }));
+    const store = createStore(axios, {
+      pagination: {
+        prepare: (data: any) => ({ count: data.count }),
+        extractList: (data: any) => data.results,
+      },
+    });
+    const getList = getAction(store, 'getList');
+    await getList();
+    await getList({ params: { active: true }, queryKey: getQueryKey({ active: true }) });
+    const activeKey = getQueryKey({ active: true });
+
+    store.deleteInstance(cat);
+    expect(store.getState().queries[activeKey].pagination!.count).toBe(9);
+    expect(store.getState().pagination.count).toBe(10);
+
+    store.deleteInstance(bob);
+    expect(store.getState().queries[activeKey].pagination!.count).toBe(9);
+    expect(store.getState().pagination.count).toBe(9);
+  });
+
+  it('should keep loading state per query', async () => {
+    const resolvers: ((value: any) => void)[] = [];
+    const axios = jest.fn(() => new Promise((r) => { resolvers.push(r); }));
+    const store = createStore(axios);
+
+    const { result } = renderHook(() => ({
+      active: useGetList(store, { params: { active: true } }),
+      inactive: useGetList(store, { params: { active: false } }),
+    }));
+    await act(async () => { await flush(); });
+
+    // Both run, the default 'drop' concurrency applies per query
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(result.current.active[1].isLoading).toBe(true);
+    expect(result.current.inactive[1].isLoading).toBe(true);
+    expect(store.getState().loadingState['getList']).toBeUndefined();
+
+    await act(async () => {
+      resolvers[1]({ data: [bob] });
+      await flush();
+    });
+    expect(result.current.active[1].isLoading).toBe(true);
+    expect(result.current.inactive[1].isLoading).toBe(false);
+    expect(result.current.inactive[0]).toEqual([bob]);
+  });
+
+  it('should fetch again when the params change', async () => {
+    const axios = createAxios();
+    const store = createStore(axios);
+
+    const { result, rerender } = renderHook(
+      ({ active }) => useGetList(store, { params: { active } }),
+      { initialProps: { active: true } }
+    );
+    await act(async () => { await flush(); });
+    expect(result.current[0]).toEqual([ann, cat]);
+
+    rerender({ active: false });
+    expect(result.current[0]).toBeNull();
+    await act(async () => { await flush(); });
+    expect(result.current[0]).toEqual([bob]);
+    expect(axios).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep pagination per query', async () => {
+    const axios = jest.fn((config: any) => Promise.resolve({
+      data: { results: [ann], count: config.params.active ? 2 : 1 },
+    }));
+    const store = createStore(axios, {
+      pagination: {
+        limit: 1,
+        prepare: (data: any) => ({ count: data.count }),
+        prepareParams: ({ offset, limit }: any) => ({ offset, limit }),
+        extractList: (data: any) => data.results,
+      },
+    });
+
+    const { result } = renderHook(() => ({
+      list: useGetList(store, { params: { active: true } }),
+      pagination: usePagination(store, { params: { active: true } }),
+    }));
+    expect(result.current.pagination.pagination).toEqual({ count: 0, offset: 0, limit: 1 });
+    await act(async () => { await flush(); });
+
+    expect(axios).toHaveBeenCalledWith(expect.objectContaining({ params: { offset: 0, limit: 1, active: true } }));
+    expect(result.current.pagination.pagination).toEqual({ count: 2, offset: 0, limit: 1 });
+    expect(store.getState().pagination.count).toBe(0);
+
+    act(() => { result.current.pagination.setPagination({ offset: 1 }); });
+    expect(store.getState().queries[getQueryKey({ active: true })].pagination!.offset).toBe(1);
+  });
+});
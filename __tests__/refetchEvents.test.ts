@@ -0,0 +1,111 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { useGetList } from '../src/useGetList';
+import { useGet } from '../src/useGet';
+import { useCrud } from '../src/useCrud';
+import { getMountedFetchKeys } from '../src/refetchEvents';
+import { renderHook, act } from '@testing-library/react';
+
+interface Order {
+  id: number;
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+const createAxios = () => jest.fn((config: any) => Promise.resolve({
+  data: config.url === '/orders' ? [{ id: 1 }] : { id: 1 },
+}));
+
+const focus = () => act(async () => {
+  Object.defineProperty(document, 'visibilityState', { configurable: true, value: 'visible' });
+  document.dispatchEvent(new Event('visibilitychange'));
+  await flush();
+});
+
+const reconnect = () => act(async () => {
+  window.dispatchEvent(new Event('online'));
+  await flush();
+});
+
+describe('refetch on focus and reconnect', () => {
+  it('should be off by default', async () => {
+    const axios = createAxios();
+    const store = createStoreRegistry<{ orders: Order }>()('orders', { axios: axios as any, route: '/orders' });
+
+    renderHook(() => useGetList(store));
+    await act(flush);
+    await focus();
+    await reconnect();
+    expect(axios).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refetch once per store and request for all mounted hooks', async () => {
+    const axios = createAxios();
+    const store = createStoreRegistry<{ orders: Order }>({ refetchOnFocus: true })('orders', {
+      axios: axios as any,
+      route: '/orders',
+    });
+
+    const list = renderHook(() => useGetList(store));
+    renderHook(() => useGetList(store));
+    const detail = renderHook(() => useGet(store, 1));
+    await act(flush);
+    expect(getMountedFetchKeys(store)).toEqual(['getList', 'get:1']);
+    axios.mockClear();
+
+    await focus();
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(axios).toHaveBeenCalledWith(expect.objectContaining({ url: '/orders' }));
+    expect(axios).toHaveBeenCalledWith(expect.objectContaining({ url: '/orders/1' }));
+
+    // Not on reconnect
+    await reconnect();
+    expect(axios).toHaveBeenCalledTimes(2);
+
+    list.unmount();
+    detail.unmount();
+    await focus();
+    expect(axios).toHaveBeenCalledTimes(3);
+  });
+
+  it('should let the store and the hook override the registry', async () => {
+    const axios = createAxios();
+    const getOrCreateStore = createStoreRegistry<{ orders: Order }>({ refetchOnReconnect: true });
+    const store = getOrCreateStore('orders', {
+      axios: axios as any,
+      route: '/orders',
+      refetchOnReconnect: false,
+    });
+
+    renderHook(() => useGetList(store));
+    const detail = renderHook(() => useGet(store, 1, { refetchOnReconnect: true }));
+    await act(flush);
+    axios.mockClear();
+
+    await reconnect();
+    expect(axios).toHaveBeenCalledTimes(1);
+    expect(axios).toHaveBeenCalledWith(expect.objectContaining({ url: '/orders/1' }));
+
+    detail.unmount();
+    expect(getMountedFetchKeys(store)).toEqual([]);
+  });
+
+  it('should refetch the list from useCrud only when asked to', async () => {
+    const axios = createAxios();
+    const store = createStoreRegistry<{ orders: Order }>()('orders', {
+      axios: axios as any,
+      route: '/orders',
+      refetchOnFocus: true,
+    });
+
+    const { unmount } = renderHook(() => useCrud(store, 1));
+    await act(flush);
+    expect(getMountedFetchKeys(store)).toEqual(['get:1']);
+    unmount();
+
+    renderHook(() => useCrud(store, null, { refetchOnFocus: true }));
+    expect(getMountedFetchKeys(store)).toEqual(['getList']);
+    axios.mockClear();
+    await focus();
+    expect(axios).toHaveBeenCalledWith(expect.objectContaining({ url: '/orders' }));
+  });
+});
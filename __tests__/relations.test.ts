@@ -0,0 +1,179 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { useRelated } from '../src/useRelated';
+import { renderHook, act } from '@testing-library/react';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+interface Post {
+  id: number;
+  title: string;
+  userId: number;
+  tagIds?: number[];
+}
+
+interface Comment {
+  id: number;
+  postId: number;
+  body: string;
+}
+
+interface Tag {
+  id: number;
+  label: string;
+}
+
+type Models = { users: User; posts: Post; comments: Comment; tags: Tag };
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+const createStores = (usersAxios: any = jest.fn(), tagsAxios: any = jest.fn()) => {
+  const registry = createStoreRegistry<Models>();
+  const users = registry('users', {
+    axios: usersAxios,
+    route: '/users',
+    actions: { get: true, getList: true },
+  });
+  const comments = registry('comments', {
+    axios: jest.fn() as any,
+    route: '/comments',
+    actions: { getList: true },
+  });
+  const tags = registry('tags', {
+    axios: tagsAxios,
+    route: '/tags',
+    actions: { get: true, getList: true },
+  });
+  const posts = registry('posts', {
+    axios: jest.fn() as any,
+    route: '/posts',
+    relations: {
+      author: { type: 'belongsTo', key: 'users', foreignKey: 'userId' },
+      comments: { type: 'hasMany', key: 'comments', foreignKey: 'postId' },
+      tags: { type: 'hasMany', key: 'tags', localKey: 'tagIds' },
+    },
+  });
+  return { registry, users, comments, tags, posts };
+};
+
+describe('relations', () => {
+  it('should look up created stores by key', () => {
+    const { registry, users } = createStores();
+    expect(registry.getStore('users')).toBe(users);
+    expect(registry.getStore('posts')!.registry).toBe(registry);
+  });
+
+  it('should resolve a belongsTo relation from the related store', () => {
+    const usersAxios = jest.fn();
+    const { users, posts } = createStores(usersAxios);
+    users.setList([{ id: 1, name: 'Ann' }, { id: 2, name: 'Bob' }]);
+
+    const post: Post = { id: 10, title: 'Hello', userId: 2 };
+    const { result } = renderHook(() => useRelated(posts, post, 'author'));
+
+    expect(result.current).toEqual({ id: 2, name: 'Bob' });
+    expect(usersAxios).not.toHaveBeenCalled();
+  });
+
+  it('should follow updates in the related store', () => {
+    const { users, posts } = createStores();
+    users.setList([{ id: 1, name: 'Ann' }]);
+
+    const post: Post = { id: 10, title: 'Hello', userId: 1 };
+    const { result } = renderHook(() => useRelated(posts, post, 'author'));
+
+    act(() => { users.updateInstance({ id: 1, name: 'Anne' }); });
+    expect(result.current).toEqual({ id: 1, name: 'Anne' });
+  });
+
+  it('should fetch a missing belongsTo record with the related get action', async () => {
+    const usersAxios = jest.fn().mockResolvedValue({ data: { id: 3, name: 'Cat' } });
+    const { posts } = createStores(usersAxios);
+
+    const post: Post = { id: 10, title: 'Hello', userId: 3 };
+    const { result } = renderHook(() => useRelated(posts, post, 'author'));
+    expect(result.current).toBeNull();
+
+    await act(async () => { await flush(); });
+
+    expect(usersAxios).toHaveBeenCalledWith(expect.objectContaining({ method: 'get', url: '/users/3' }));
+    expect(result.current).toEqual({ id: 3, name: 'Cat' });
+  });
+
+  it('should fetch missing records of several hooks side by side', async () => {
+    const usersAxios = jest.fn((config: any) => Promise.resolve({
+      data: { id: Number(config.url.split('/').pop()), name: 'User' },
+    }));
+    const { posts } = createStores(usersAxios);
+
+    renderHook(() => [
+      useRelated(posts, { id: 10, title: 'A', userId: 4 }, 'author'),
+      useRelated(posts, { id: 11, title: 'B', userId: 5 }, 'author'),
+    ]);
+    await act(async () => { await flush(); await flush(); });
+
+    expect(usersAxios).toHaveBeenCalledTimes(2);
+    expect(usersAxios.mock.calls.map(([config]) => config.url).sort()).toEqual(['/users/4', '/users/5']);
+  });
+
+  it('should fetch every missing record of a hasMany relation at once', async () => {
+    const requests: { url: string; resolve: () => void }[] = [];
+    const tagsAxios = jest.fn((config: any) => new Promise((resolve) => {
+      const id = Number(config.url.split('/').pop());
+      requests.push({ url: config.url, resolve: () => resolve({ data: { id, label: `Tag ${id}` } }) });
+    }));
+    const { posts } = createStores(jest.fn(), tagsAxios);
+
+    const post: Post = { id: 10, title: 'Hello', userId: 1, tagIds: [1, 2, 3] };
+    const { result } = renderHook(() => useRelated(posts, post, 'tags'));
+    await act(async () => { await flush(); });
+    expect(requests.map((request) => request.url)).toEqual(['/tags/1', '/tags/2', '/tags/3']);
+
+    await act(async () => {
+      requests.forEach((request) => request.resolve());
+      await flush();
+    });
+    expect(tagsAxios).toHaveBeenCalledTimes(3);
+    expect(result.current).toEqual([
+      { id: 1, label: 'Tag 1' },
+      { id: 2, label: 'Tag 2' },
+      { id: 3, label: 'Tag 3' },
+    ]);
+  });
+
+  it('should resolve hasMany relations by foreign key', () => {
+    const { comments, posts } = createStores();
+    comments.setList([
+      { id: 1, postId: 10, body: 'First' },
+      { id: 2, postId: 11, body: 'Other' },
+      { id: 3, postId: 10, body: 'Second' },
+    ]);
+
+    const { result } = renderHook(() => useRelated(posts, { id: 10, title: 'Hello', userId: 1 }, 'comments'));
+    expect(result.current).toEqual([
+      { id: 1, postId: 10, body: 'First' },
+      { id: 3, postId: 10, body: 'Second' },
+    ]);
+  });
+
+  it('should resolve hasMany relations by a list of ids in order', () => {
+    const { tags, posts } = createStores();
+    tags.setList([{ id: 1, label: 'a' }, { id: 2, label: 'b' }, { id: 3, label: 'c' }]);
+
+    const post: Post = { id: 10, title: 'Hello', userId: 1, tagIds: [3, 1] };
+    const { result } = renderHook(() => useRelated(posts, post, 'tags'));
+    expect(result.current).toEqual([{ id: 3, label: 'c' }, { id: 1, label: 'a' }]);
+  });
+
+  it('should return null or an empty list without an instance', () => {
+    const { posts } = createStores();
+    const { result } = renderHook(() => ({
+      author: useRelated(posts, null, 'author'),
+      comments: useRelated(posts, null, 'comments'),
+    }));
+    expect(result.current.author).toBeNull();
+    expect(result.current.comments).toEqual([]);
+  });
+});
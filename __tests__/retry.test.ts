@@ -0,0 +1,132 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { getAction } from '../src/useActions';
+import { getLoadingState, getInstanceLoadingState } from '../src/loadingState';
+import { getListQuery } from '../src/queries';
+import { getRetryOptions, isRetryableError, defaultRetryBackoff } from '../src/retry';
+
+interface Item {
+  id: number;
+}
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { response: { status } });
+
+const createStore = (axios: any, actions: object) =>
+  createStoreRegistry<{ items: Item }>()('items', {
+    axios: axios as any,
+    route: '/items',
+    actions,
+  });
+
+describe('retry', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('should resolve retry options', () => {
+    expect(getRetryOptions(undefined, undefined)).toBeNull();
+    expect(getRetryOptions(5, false)).toBeNull();
+    expect(getRetryOptions(5, undefined)).toEqual({
+      attempts: 5,
+      backoff: defaultRetryBackoff,
+      retryIf: isRetryableError,
+    });
+    expect(getRetryOptions({ attempts: 2 }, 4)!.attempts).toBe(4);
+    expect(getRetryOptions({}, undefined)!.attempts).toBe(3);
+    expect([1, 2, 3, 10].map(defaultRetryBackoff)).toEqual([1000, 2000, 4000, 30000]);
+  });
+
+  it('should only retry network errors, timeouts, rate limits and server errors', () => {
+    expect(isRetryableError(new Error('Network Error'))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(404))).toBe(false);
+    expect(isRetryableError({ code: 'ERR_CANCELED' })).toBe(false);
+  });
+
+  it('should retry with backoff and report progress in the loading state', async () => {
+    const axios = jest.fn()
+      .mockRejectedValueOnce(httpError(502))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValue({ data: [{ id: 1 }] });
+    const onError = jest.fn();
+    const store = createStore(axios, { getList: { retry: 3, onError } });
+
+    const promise = getAction(store, 'getList')();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(getLoadingState(store, 'getList')).toMatchObject({ isLoading: true, retryCount: 1, isRetrying: true });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(getLoadingState(store, 'getList').retryCount).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    await promise;
+    expect(axios).toHaveBeenCalledTimes(3);
+    expect(getLoadingState(store, 'getList')).toMatchObject({
+      isLoading: false,
+      error: null,
+      retryCount: 2,
+      isRetrying: false,
+    });
+    expect(onError).not.toHaveBeenCalled();
+    expect(store.getState().data!.size).toBe(1);
+  });
+
+  it('should give up after the last attempt', async () => {
+    const axios = jest.fn().mockRejectedValue(httpError(500));
+    const onError = jest.fn();
+    const store = createStore(axios, {
+      get: { retry: { attempts: 2, backoff: () => 10 }, onError },
+    });
+
+    const promise = expect(getAction(store, 'get')({ id: 1 })).rejects.toThrow('HTTP 500');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(getInstanceLoadingState(store, 'get', 1)).toMatchObject({ retryCount: 1, isRetrying: true });
+    await jest.advanceTimersByTimeAsync(10);
+    await promise;
+
+    expect(axios).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(getLoadingState(store, 'get')).toMatchObject({ isRetrying: false, retryCount: 1 });
+    expect(getLoadingState(store, 'get').error.response.status).toBe(500);
+    expect(getInstanceLoadingState(store, 'get', 1).isRetrying).toBe(false);
+  });
+
+  it('should not retry errors rejected by retryIf', async () => {
+    const axios = jest.fn().mockRejectedValue(httpError(404));
+    const store = createStore(axios, { get: { retry: 5, onError: () => {} } });
+
+    await expect(getAction(store, 'get')({ id: 1 })).rejects.toThrow('HTTP 404');
+    expect(axios).toHaveBeenCalledTimes(1);
+
+    const retryIf = jest.fn(() => true);
+    const promise = expect(getAction(store, 'get')({ id: 1 }, { retry: { attempts: 2, retryIf, backoff: () => 0 } }))
+      .rejects.toThrow('HTTP 404');
+    await jest.advanceTimersByTimeAsync(0);
+    await promise;
+    expect(axios).toHaveBeenCalledTimes(3);
+    expect(retryIf).toHaveBeenCalledWith(expect.objectContaining({ message: 'HTTP 404' }), 1);
+  });
+
+  it('should let a call turn retries off', async () => {
+    const axios = jest.fn().mockRejectedValue(httpError(503));
+    const store = createStore(axios, { getList: { retry: 3, onError: () => {} } });
+
+    await expect(getAction(store, 'getList')({ retry: false })).rejects.toThrow('HTTP 503');
+    expect(axios).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry query lists', async () => {
+    const axios = jest.fn()
+      .mockRejectedValueOnce(new Error('Network Error'))
+      .mockResolvedValue({ data: [{ id: 2 }] });
+    const store = createStore(axios, { getList: { retry: { backoff: () => 100 } } });
+
+    const promise = getAction(store, 'getList')({ params: { q: 'a' }, queryKey: 'a' });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(getListQuery(store, 'a').loadingState).toMatchObject({ retryCount: 1, isRetrying: true });
+    await jest.advanceTimersByTimeAsync(100);
+    await promise;
+    expect(getListQuery(store, 'a').loadingState).toMatchObject({ isLoading: false, error: null, isRetrying: false });
+    expect(getListQuery(store, 'a').ids).toEqual(['2']);
+  });
+});
@@ -0,0 +1,171 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { useGet } from '../src/useGet';
+import { useGetList } from '../src/useGetList';
+import { renderHook, act } from '@testing-library/react';
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+describe('stale-while-revalidate', () => {
+  let now: number;
+  let dateSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    dateSpy = jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    dateSpy.mockRestore();
+  });
+
+  it('should record fetch timestamps for lists and instances', async () => {
+    const axios = jest.fn()
+      .mockResolvedValueOnce({ data: [{ id: 1, name: 'One' }] })
+      .mockResolvedValueOnce({ data: { id: 2, name: 'Two' } });
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { getList: true, get: true },
+    });
+
+    renderHook(() => useGetList(store));
+    await act(async () => { await flush(); });
+    expect(store.getState().listFetchedAt).toBe(now);
+
+    now += 500;
+    renderHook(() => useGet(store, 2));
+    await act(async () => { await flush(); });
+    expect(store.getState().fetchedAt).toEqual({ '2': now });
+  });
+
+  it('should not refetch fresh data', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: [{ id: 1, name: 'One' }] });
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { getList: true },
+      staleTime: 1000,
+    });
+    store.setList([{ id: 1, name: 'One' }]);
+    store.getState().setFetchedAt(null, now - 999);
+
+    const { result } = renderHook(() => useGetList(store));
+    await act(async () => { await flush(); });
+
+    expect(axios).not.toHaveBeenCalled();
+    expect(result.current[1].isStale).toBe(false);
+  });
+
+  it('should render stale list data and refetch it in the background', async () => {
+    let resolve: (value: any) => void = () => {};
+    const axios = jest.fn(() => new Promise((r) => { resolve = r; }));
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { getList: { staleTime: 1000 } },
+    });
+    store.setList([{ id: 1, name: 'Old' }]);
+    store.getState().setFetchedAt(null, now - 1000);
+
+    const { result } = renderHook(() => useGetList(store));
+    await act(async () => { await flush(); });
+
+    expect(axios).toHaveBeenCalledTimes(1);
+    expect(result.current[0]).toEqual([{ id: 1, name: 'Old' }]);
+    expect(result.current[1].isStale).toBe(true);
+    expect(result.current[1].isRefetching).toBe(true);
+
+    await act(async () => {
+      resolve({ data: [{ id: 1, name: 'New' }] });
+      await flush();
+    });
+
+    expect(result.current[0]).toEqual([{ id: 1, name: 'New' }]);
+    expect(result.current[1].isStale).toBe(false);
+    expect(result.current[1].isRefetching).toBe(false);
+  });
+
+  it('should hide expired list data until it is fetched again', async () => {
+    let resolve: (value: any) => void = () => {};
+    const axios = jest.fn(() => new Promise((r) => { resolve = r; }));
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { getList: true },
+      staleTime: 1000,
+      cacheTime: 5000,
+    });
+    store.setList([{ id: 1, name: 'Old' }]);
+    store.getState().setFetchedAt(null, now - 5000);
+
+    const { result } = renderHook(() => useGetList(store));
+    await act(async () => { await flush(); });
+
+    expect(result.current[0]).toBeNull();
+    expect(result.current[1].isLoading).toBe(true);
+    expect(result.current[1].isRefetching).toBe(false);
+
+    await act(async () => {
+      resolve({ data: [{ id: 1, name: 'New' }] });
+      await flush();
+    });
+    expect(result.current[0]).toEqual([{ id: 1, name: 'New' }]);
+  });
+
+  it('should refetch a stale instance in the background', async () => {
+    let resolve: (value: any) => void = () => {};
+    const axios = jest.fn(() => new Promise((r) => { resolve = r; }));
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { get: { staleTime: 1000 } },
+    });
+    store.setInstance({ id: 1, name: 'Old' });
+    store.getState().setFetchedAt('1', now - 2000);
+
+    const { result } = renderHook(() => useGet(store, 1));
+    await act(async () => { await flush(); });
+
+    expect(axios).toHaveBeenCalledTimes(1);
+    expect(result.current[0]).toEqual({ id: 1, name: 'Old' });
+    expect(result.current[1].isStale).toBe(true);
+    expect(result.current[1].isRefetching).toBe(true);
+
+    await act(async () => {
+      resolve({ data: { id: 1, name: 'New' } });
+      await flush();
+    });
+    expect(result.current[0]).toEqual({ id: 1, name: 'New' });
+    expect(result.current[1].isStale).toBe(false);
+  });
+
+  it('should treat an instance from a fresh list fetch as fresh', async () => {
+    const axios = jest.fn();
+    const getOrCreate = createStoreRegistry<{ items: Item }>();
+    const store = getOrCreate('items', {
+      axios: axios as any,
+      route: '/items',
+      actions: { get: true },
+      staleTime: 1000,
+    });
+    store.setInstance({ id: 1, name: 'One' });
+    store.getState().setFetchedAt('1', now - 2000);
+    store.getState().setFetchedAt(null, now - 10);
+
+    const { result } = renderHook(() => useGet(store, 1));
+    await act(async () => { await flush(); });
+
+    expect(axios).not.toHaveBeenCalled();
+    expect(result.current[1].isStale).toBe(false);
+  });
+});
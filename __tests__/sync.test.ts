@@ -0,0 +1,145 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+// In-memory BroadcastChannel: messages reach every other channel with the
+// same name, asynchronously, as a copy
+class MockBroadcastChannel {
+  static channels: MockBroadcastChannel[] = [];
+  name: string;
+  onmessage: ((event: { data: any }) => void) | null = null;
+
+  constructor(name: string) {
+    this.name = name;
+    MockBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(message: any) {
+    const data = JSON.stringify(message);
+    MockBroadcastChannel.channels
+      .filter((channel) => channel !== this && channel.name === this.name)
+      .forEach((channel) => setTimeout(() => channel.onmessage?.({ data: JSON.parse(data) }), 0));
+  }
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+const createTab = (sync = true) => createStoreRegistry<{ items: Item }>()('items', {
+  axios: jest.fn() as any,
+  route: '/items',
+  select: 'multiple',
+  ...sync ? { sync: 'broadcast' as const } : {},
+});
+
+describe('cross-tab sync', () => {
+  const original = (global as any).BroadcastChannel;
+
+  beforeEach(() => {
+    MockBroadcastChannel.channels = [];
+    (global as any).BroadcastChannel = MockBroadcastChannel;
+  });
+
+  afterEach(() => {
+    (global as any).BroadcastChannel = original;
+  });
+
+  it('should apply data mutations in other tabs', async () => {
+    const first = createTab();
+    const second = createTab();
+
+    first.setList([{ id: 1, name: 'One' }, { id: 2, name: 'Two' }]);
+    await flush();
+    expect(Array.from(second.getState().data!.values())).toEqual([{ id: 1, name: 'One' }, { id: 2, name: 'Two' }]);
+
+    first.updateInstance({ id: 1, name: 'Uno' } as Item);
+    first.setInstance({ id: 3, name: 'Three' });
+    first.deleteInstance({ id: 2 } as Item);
+    await flush();
+    expect(Array.from(second.getState().data!.values())).toEqual([{ id: 1, name: 'Uno' }, { id: 3, name: 'Three' }]);
+
+    second.patchList([{ id: 3, name: 'Drei' }]);
+    second.updateList([{ id: 4, name: 'Four' }]);
+    await flush();
+    expect(Array.from(first.getState().data!.values())).toEqual([
+      { id: 1, name: 'Uno' },
+      { id: 3, name: 'Drei' },
+      { id: 4, name: 'Four' },
+    ]);
+  });
+
+  it('should not publish mutations received from another tab', async () => {
+    const first = createTab();
+    const second = createTab();
+    const sent = jest.spyOn(MockBroadcastChannel.prototype, 'postMessage');
+
+    first.setInstance({ id: 1, name: 'One' });
+    await flush();
+    await flush();
+
+    expect(second.getState().data!.get('1')).toEqual({ id: 1, name: 'One' });
+    expect(sent).toHaveBeenCalledTimes(1);
+    sent.mockRestore();
+  });
+
+  it('should keep selection and loading state local to the tab', async () => {
+    const first = createTab();
+    const second = createTab();
+    first.setList([{ id: 1, name: 'One' }, { id: 2, name: 'Two' }]);
+    await flush();
+
+    second.setSelectedIds(['1', '2']);
+    first.getState().setLoadingState('getList', { isLoading: true });
+    first.setList([{ id: 1, name: 'One' }]);
+    await flush();
+
+    expect(first.getState().selectedIds).toEqual([]);
+    expect(second.getState().selectedIds).toEqual(['1']);
+    expect(second.getState().loadingState).toEqual({});
+  });
+
+  it('should roll back optimistic mutations in other tabs', async () => {
+    const first = createTab();
+    const second = createTab();
+    first.setList([{ id: 1, name: 'One' }]);
+    await flush();
+
+    const snapshot = first.snapshotInstances(['1']);
+    first.updateInstance({ id: 1, name: 'Optimistic' } as Item);
+    await flush();
+    expect(second.getState().data!.get('1')).toEqual({ id: 1, name: 'Optimistic' });
+
+    first.restoreInstances(snapshot);
+    await flush();
+    expect(second.getState().data!.get('1')).toEqual({ id: 1, name: 'One' });
+  });
+
+  it('should apply query lists in other tabs without their loading state', async () => {
+    const first = createTab();
+    const second = createTab();
+
+    first.getState().setQuery('active', { params: { active: true }, loadingState: { isLoading: true } });
+    first.getState().setQueryList('active', [{ id: 1, name: 'One' }]);
+    await flush();
+
+    const query = second.getState().queries.active;
+    expect(query.ids).toEqual(['1']);
+    expect(query.params).toEqual({ active: true });
+    expect(query.loadingState.isLoading).toBe(false);
+    expect(second.getState().data!.get('1')).toEqual({ id: 1, name: 'One' });
+    expect(second.getState().listIds).toBeNull();
+  });
+
+  it('should not use a channel without the sync option', async () => {
+    const first = createTab(false);
+    const second = createTab();
+
+    first.setInstance({ id: 1, name: 'One' });
+    await flush();
+
+    expect(MockBroadcastChannel.channels).toHaveLength(1);
+    expect(second.getState().data).toBeNull();
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * @jest-environment node
+ */
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { getAction } from '../src/useActions';
+import { fetchTransport, axiosTransport, serializeParams, TransportError } from '../src/transport';
+import { isRetryableError } from '../src/retry';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+// Minimal stand-in for a fetch Response
+const createResponse = (status: number, body: any, contentType = 'application/json') => {
+  const headers: { [name: string]: string } = contentType ? { 'content-type': contentType } : {};
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: {
+      get: (name: string) => headers[name.toLowerCase()] ?? null,
+      forEach: (fn: (value: string, key: string) => void) => Object.keys(headers).forEach((key) => fn(headers[key], key)),
+    },
+    text: () => Promise.resolve(body == null ? '' : typeof body === 'string' ? body : JSON.stringify(body)),
+  };
+};
+
+describe('fetchTransport', () => {
+  it('should send JSON with the base URL, params and headers', async () => {
+    const fetch = jest.fn().mockResolvedValue(createResponse(201, { id: 1, name: 'Ann' }));
+    const transport = fetchTransport({
+      baseURL: 'https://api.test/v1/',
+      headers: () => ({ Authorization: 'Bearer abc' }),
+      fetch: fetch as any,
+    });
+
+    const response = await transport.request({
+      method: 'post',
+      url: '/users',
+      params: { team: [1, 2], q: null },
+      data: { name: 'Ann' },
+      headers: { 'X-Trace': '1' },
+    });
+
+    expect(fetch).toHaveBeenCalledWith('https://api.test/v1/users?team=1&team=2', expect.objectContaining({
+      method: 'POST',
+      body: '{"name":"Ann"}',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer abc', 'X-Trace': '1' },
+    }));
+    expect(response).toEqual({
+      status: 201,
+      data: { id: 1, name: 'Ann' },
+      headers: { 'content-type': 'application/json' },
+    });
+  });
+
+  it('should reject error statuses with the response', async () => {
+    const fetch = jest.fn()
+      .mockResolvedValueOnce(createResponse(404, { detail: 'Not found' }))
+      .mockResolvedValueOnce(createResponse(503, 'Unavailable', 'text/plain'));
+    const transport = fetchTransport({ fetch: fetch as any });
+
+    const notFound = await transport.request({ method: 'get', url: '/users/1' }).catch((e) => e);
+    expect(notFound).toBeInstanceOf(TransportError);
+    expect(notFound.response).toMatchObject({ status: 404, data: { detail: 'Not found' } });
+    expect(isRetryableError(notFound)).toBe(false);
+
+    const unavailable = await transport.request({ method: 'get', url: '/users/1' }).catch((e) => e);
+    expect(unavailable.response.data).toBe('Unavailable');
+    expect(isRetryableError(unavailable)).toBe(true);
+  });
+
+  it('should send other bodies as they are and read empty responses as null', async () => {
+    const fetch = jest.fn().mockResolvedValue(createResponse(204, null, ''));
+    const transport = fetchTransport({ fetch: fetch as any });
+
+    const response = await transport.request({ method: 'delete', url: '/users/1', data: 'raw' });
+    expect(fetch.mock.calls[0][1]).toMatchObject({ method: 'DELETE', body: 'raw', headers: {} });
+    expect(response.data).toBeNull();
+  });
+
+  it('should not send a body with GET requests', async () => {
+    // A real Request rejects GET and HEAD requests with a body, like fetch does
+    const fetch = jest.fn(async (url: string, init: RequestInit) => {
+      const request = new Request(url, init);
+      return createResponse(200, { id: 1, name: 'Ann', method: request.method });
+    });
+    const store = createStoreRegistry<{ users: User }>()('users', {
+      route: '/users',
+      transport: fetchTransport({ baseURL: 'https://api.test', fetch: fetch as any }),
+      actions: { get: true },
+    });
+
+    expect(await getAction(store, 'get')({ id: 1 })).toEqual({ id: 1, name: 'Ann', method: 'GET' });
+    expect(fetch.mock.calls[0][1]).toMatchObject({ method: 'GET', body: undefined, headers: {} });
+  });
+
+  it('should serialize params', () => {
+    expect(serializeParams({ a: 1, b: 'x y', c: undefined, d: [true, false] })).toBe('?a=1&b=x+y&d=true&d=false');
+    expect(serializeParams({ at: new Date('2024-01-02T00:00:00.000Z') })).toBe('?at=2024-01-02T00%3A00%3A00.000Z');
+    expect(serializeParams({})).toBe('');
+    expect(serializeParams(undefined)).toBe('');
+  });
+});
+
+describe('transports in stores', () => {
+  it('should use the registry transport when the store has none', async () => {
+    const request = jest.fn().mockResolvedValue({ status: 200, data: [{ id: 1, name: 'Ann' }], headers: {} });
+    const store = createStoreRegistry<{ users: User }>({ transport: { request } })('users', {
+      route: '/users',
+      actions: { getList: true },
+    });
+
+    await getAction(store, 'getList')({ params: { page: 2 }, requestOptions: { headers: { 'X-Trace': '1' } } });
+    expect(request).toHaveBeenCalledWith({
+      method: 'get',
+      url: '/users',
+      params: { page: 2 },
+      headers: { 'X-Trace': '1' },
+      signal: expect.any(AbortSignal),
+      action: 'getList',
+    });
+    expect(store.getState().data!.get('1')).toEqual({ id: 1, name: 'Ann' });
+  });
+
+  it('should keep the request signal over a signal in requestOptions', async () => {
+    const signals: AbortSignal[] = [];
+    const request = jest.fn(({ signal }) => {
+      signals.push(signal);
+      return new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(new Error('canceled'))));
+    });
+    const store = createStoreRegistry<{ users: User }>({ transport: { request } })('users', {
+      route: '/users',
+      actions: { getList: true, bulkDelete: true },
+    });
+    const requestOptions = { signal: new AbortController().signal };
+
+    const getList = getAction(store, 'getList');
+    const list = getList({ requestOptions });
+    const bulkDelete = getAction(store, 'bulkDelete');
+    const deleted = bulkDelete([{ id: 1 }], { requestOptions });
+    await new Promise((r) => setTimeout(r, 0));
+    expect(signals).toHaveLength(2);
+    expect(signals).not.toContain(requestOptions.signal);
+
+    getList.abort();
+    bulkDelete.abort();
+    await expect(list).resolves.toBeUndefined();
+    await deleted;
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it('should prefer the store transport and axios over the registry transport', async () => {
+    const registryRequest = jest.fn();
+    const storeRequest = jest.fn().mockResolvedValue({ status: 200, data: { id: 1, name: 'Ann' }, headers: {} });
+    const axios = jest.fn().mockResolvedValue({ status: 200, data: { id: 2, name: 'Bob' }, headers: {} });
+    const registry = createStoreRegistry<{ users: User; admins: User }>({ transport: { request: registryRequest } });
+    const users = registry('users', { route: '/users', transport: { request: storeRequest }, actions: { get: true } });
+    const admins = registry('admins', { route: '/admins', axios: axios as any, actions: { get: true } });
+
+    await getAction(users, 'get')({ id: 1 });
+    await getAction(admins, 'get')({ id: 2 }, { axiosConfig: { timeout: 500 } });
+
+    expect(registryRequest).not.toHaveBeenCalled();
+    expect(storeRequest).toHaveBeenCalledWith(expect.objectContaining({ url: '/users/1' }));
+    expect(axios).toHaveBeenCalledWith(expect.objectContaining({ url: '/admins/2', timeout: 500 }));
+    expect(admins.getState().data!.get('2')).toEqual({ id: 2, name: 'Bob' });
+  });
+
+  it('should require a transport', () => {
+    expect(() => createStoreRegistry<{ users: User }>()('users', { route: '/users' })).toThrow(
+      'A store needs a transport or an axios instance'
+    );
+  });
+
+  it('should map axios responses', async () => {
+    const axios = jest.fn().mockResolvedValue({ status: 200, data: 'ok', headers: { etag: '1' }, config: {} });
+    const response = await axiosTransport(axios as any).request({ method: 'get', url: '/' });
+    expect(response).toEqual({ status: 200, data: 'ok', headers: { etag: '1' } });
+  });
+});
@@ -1,6 +1,8 @@
 import Axios from "axios";
 import { createStoreRegistry } from "../src/createStoreRegistry";
 import { useCrud, type UseCrudReturn } from "../src/useCrud";
+import type { BulkResult } from "../src/bulk";
+import { useSelectionActions } from "../src/useSelectionActions";
 
 const axios = Axios.create({ baseURL: "/api" });
 type Item = { id: number; name: string };
@@ -211,3 +213,26 @@ const _glOnResponse2: typeof typed.getList.onResponse = (response, context) => {
 const _resendIsLoading: boolean = typed.approve.isLoading;
 const _resendError: any = typed.approve.error;
 const _resendSequence: number = typed.approve.sequence;
+
+// ── Bulk actions ───────────────────────────────────────────────────
+
+const bulkStore = registry("items", {
+  axios,
+  route: "/items",
+  actions: { getList: true, bulkCreate: { route: '/items/bulk' }, bulkDelete: true },
+});
+const bulk = useCrud(bulkStore);
+const _bulkCreateReturn: Promise<BulkResult<Item>> = bulk.bulkCreate([{ name: 'a' }, { name: 'b' }]);
+bulk.bulkDelete([{ id: 1 }], { callback: (result) => { const _failed: number = result.failed.length; void _failed; } });
+const _bulkIsLoading: boolean = bulk.bulkDelete.isLoading;
+// @ts-expect-error — bulkUpdate not configured
+bulk.bulkUpdate;
+
+// ── Selection actions ──────────────────────────────────────────────
+
+const selection = useSelectionActions(store);
+selection.runOnSelected('archive');
+// @ts-expect-error — not a custom action of the store
+selection.runOnSelected('unknown');
+const _selectionResult: Promise<BulkResult<Item>> = selection.updateSelected({ name: 'x' });
+const _progressDone: number = selection.progress.done;
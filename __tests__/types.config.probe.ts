@@ -1,4 +1,4 @@
-import Axios from "axios";
+import Axios, { type AxiosInstance } from "axios";
 import { createStoreRegistry } from "../src/createStoreRegistry";
 import type {
   GetConfig,
@@ -11,6 +11,7 @@ import type {
   OnError,
   Route,
 } from "../src/config";
+import { fetchTransport, type Transport } from "../src/transport";
 
 const axios = Axios.create({ baseURL: "/api" });
 type Item = { id: number; name: string };
@@ -108,3 +109,25 @@ const _includeRecord: boolean = partialStore.config.includeRecord;
 const _select: 'single' | 'multiple' | null = partialStore.config.select;
 const _route: Route = partialStore.config.route;
 const _onError: OnError | null = partialStore.config.onError;
+
+// ── Transport ──────────────────────────────────────────────────────
+const fetchStore = createStoreRegistry<{ items: Item }>({ transport: fetchTransport({ baseURL: '/api' }) })("items", {
+  route: "/items",
+  actions: { getList: true },
+});
+const _transport: Transport = fetchStore.config.transport;
+const _axios: AxiosInstance | null = fetchStore.config.axios;
+fetchStore.getState();
+// @ts-expect-error — not a transport
+createStoreRegistry<{ items: Item }>({ transport: fetch });
+
+// ── Format ─────────────────────────────────────────────────────────
+const jsonApiStore = createStoreRegistry<{ items: Item }>({ transport: fetchTransport() })("items", {
+  route: "/items",
+  format: 'jsonapi',
+  jsonApi: { type: 'item', relationships: { owner: 'users' }, stores: { users: 'people' } },
+});
+const _format: 'jsonapi' | null = jsonApiStore.config.format;
+const _jsonApiType: string | undefined = jsonApiStore.config.jsonApi.type;
+// @ts-expect-error — unknown format
+createStoreRegistry<{ items: Item }>({ transport: fetchTransport() })("items", { route: "/items", format: 'xml' });
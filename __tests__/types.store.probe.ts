@@ -47,6 +47,7 @@ const _gsLoadingState: { [key: string]: LoadingStateValue } = state.loadingState
 const _setList: (data: Item[] | null) => void = state.setList;
 const _patchList: (data: Partial<Item>[]) => void = state.patchList;
 const _updateList: (data: Item[]) => void = state.updateList;
+const _mergeList: (data: Item[]) => void = state.mergeList;
 const _setInstance: (instance: Item) => void = state.setInstance;
 const _updateInstance: (instance: Item) => void = state.updateInstance;
 const _deleteInstance: (instance: Item) => void = state.deleteInstance;
@@ -107,3 +108,35 @@ minStore.patchState;
 minStore.setPagination;
 // @ts-expect-error — select not configured
 minStore.setSelectedIds;
+// @ts-expect-error — filters not configured
+minStore.setFilter;
+// @ts-expect-error — filters not configured
+minState.clearFilters;
+
+// ── Filters and ordering ───────────────────────────────────────────
+
+const filteredStore = createStoreRegistry<{ items: Item }>()("items", {
+  axios,
+  route: "/items",
+  actions: { getList: true },
+  filters: { initial: { status: 'all' as 'all' | 'active', search: '' } },
+  ordering: '-name',
+});
+
+filteredStore.setFilter('status', 'active');
+filteredStore.getState().setFilter('search', 'abc');
+// @ts-expect-error — not a filter value
+filteredStore.setFilter('status', 'archived');
+// @ts-expect-error — not a configured filter
+filteredStore.setFilter('unknown', 1);
+filteredStore.clearFilters();
+filteredStore.setOrdering({ field: 'name', direction: 'asc' });
+filteredStore.setOrdering(null);
+
+// ── Invalidation ───────────────────────────────────────────────────
+
+fullRegistry.invalidate('items');
+fullRegistry.invalidate('items', 1);
+minStore.getState().invalidate();
+// @ts-expect-error — not a store of the registry
+fullRegistry.invalidate('unknown');
@@ -65,7 +65,8 @@ describe('useCrud - Simple Coverage Tests', () => {
       expect(mockAxios).toHaveBeenCalledWith({
         method: 'get',
         url: '/users',
-        params: undefined
+        params: undefined,
+        signal: expect.any(AbortSignal),
       });
 
       expect(result.current.list).toEqual(mockUsers);
@@ -112,7 +113,7 @@ describe('useCrud - Simple Coverage Tests', () => {
       const { result } = renderHook(() => useCrud(store));
 
       await act(async () => {
-        await result.current.getList({ onError: mockOnError });
+        await expect(result.current.getList({ onError: mockOnError })).rejects.toBe(mockError);
       });
 
       expect(mockOnError).toHaveBeenCalledWith(mockError);
@@ -411,7 +412,8 @@ describe('useCrud - Simple Coverage Tests', () => {
         method: 'post',
         url: '/users',
         params: { test: 'param' },
-        data: { ...newUser, prepared: true }
+        data: { ...newUser, prepared: true },
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -448,7 +450,8 @@ describe('useCrud - Simple Coverage Tests', () => {
         method: 'get',
         url: '/users/5/custom',
         params: { include: 'profile' },
-        data: userData
+        data: userData,
+        signal: expect.any(AbortSignal),
       });
     });
   });
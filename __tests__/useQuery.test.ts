@@ -0,0 +1,91 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { useQuery, runQuery } from '../src/useQuery';
+import { renderHook, act } from '@testing-library/react';
+
+interface User {
+  id: number;
+  name: string;
+  age: number | null;
+  role: string;
+  tags: string[];
+}
+
+const users: User[] = [
+  { id: 1, name: 'Ann', age: 31, role: 'admin', tags: ['a'] },
+  { id: 2, name: 'Bob', age: 25, role: 'user', tags: ['b'] },
+  { id: 3, name: 'Cid', age: null, role: 'user', tags: ['a', 'b'] },
+  { id: 4, name: 'Dee', age: 42, role: 'guest', tags: [] },
+];
+
+const createStore = () => {
+  const store = createStoreRegistry<{ users: User }>()('users', {
+    axios: jest.fn() as any,
+    route: '/users',
+  });
+  store.getState().setList(users);
+  return store;
+};
+
+const ids = (list: User[] | null) => list!.map((user) => user.id);
+const data = new Map(users.map((user) => [`${user.id}`, user]));
+
+describe('useQuery', () => {
+  it('should match field values and operators', () => {
+    expect(ids(runQuery(data, { where: { role: 'user' } }))).toEqual([2, 3]);
+    expect(ids(runQuery(data, { where: { role: { in: ['admin', 'guest'] } } }))).toEqual([1, 4]);
+    expect(ids(runQuery(data, { where: { role: { ne: 'user' }, age: { gt: 35 } } }))).toEqual([4]);
+    expect(ids(runQuery(data, { where: { age: { gte: 25, lt: 40 } } }))).toEqual([1, 2]);
+    expect(ids(runQuery(data, { where: { name: { contains: 'e' } } }))).toEqual([4]);
+    expect(ids(runQuery(data, { where: { tags: { contains: 'a' } } }))).toEqual([1, 3]);
+    expect(ids(runQuery(data, { where: (user) => user.name.startsWith('B') }))).toEqual([2]);
+    expect(runQuery(null, { where: { role: 'user' } })).toBeNull();
+  });
+
+  it('should sort, with empty values last, and slice', () => {
+    expect(ids(runQuery(data, { sortBy: 'age' }))).toEqual([2, 1, 4, 3]);
+    expect(ids(runQuery(data, { sortBy: '-age' }))).toEqual([4, 1, 2, 3]);
+    expect(ids(runQuery(data, { sortBy: ['role', '-name'] }))).toEqual([1, 4, 3, 2]);
+    expect(ids(runQuery(data, { sortBy: (a, b) => b.id - a.id, offset: 1, limit: 2 }))).toEqual([3, 2]);
+    expect(ids(runQuery(data, { limit: 0 }))).toEqual([]);
+  });
+
+  it('should only re-render when the result changes', () => {
+    const store = createStore();
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      return useQuery(store, { where: { role: 'user' }, sortBy: 'name' });
+    });
+    expect(ids(result.current)).toEqual([2, 3]);
+    const first = result.current;
+
+    // Not part of the result
+    act(() => { store.getState().updateInstance({ ...users[0], name: 'Anna' }); });
+    expect(renders).toBe(1);
+    expect(result.current).toBe(first);
+
+    act(() => { store.getState().updateInstance({ ...users[1], name: 'Zed' }); });
+    expect(renders).toBe(2);
+    expect(ids(result.current)).toEqual([3, 2]);
+  });
+
+  it('should share results between components running the same query', () => {
+    const store = createStore();
+    const query = () => useQuery(store, { where: { tags: { contains: 'b' } }, limit: 1 });
+    const { result: a } = renderHook(query);
+    const { result: b } = renderHook(query);
+    expect(a.current).toBe(b.current);
+    expect(ids(a.current)).toEqual([2]);
+  });
+
+  it('should follow changes to the query', () => {
+    const store = createStore();
+    const { result, rerender } = renderHook(
+      ({ role }) => useQuery(store, { where: (user) => user.role === role }),
+      { initialProps: { role: 'admin' } },
+    );
+    expect(ids(result.current)).toEqual([1]);
+    rerender({ role: 'guest' });
+    expect(ids(result.current)).toEqual([4]);
+  });
+});
@@ -0,0 +1,149 @@
+import { createStoreRegistry } from '../src/createStoreRegistry';
+import { useSelectionActions } from '../src/useSelectionActions';
+import { BulkActionError } from '../src/bulk';
+import { renderHook, act } from '@testing-library/react';
+
+interface Todo {
+  id: number;
+  title: string;
+  done?: boolean;
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+const createStore = (axios: any, actions: object = {}) => {
+  const store = createStoreRegistry<{ todos: Todo }>()('todos', {
+    axios: axios as any,
+    route: '/todos',
+    actions: { getList: true, update: true, delete: true, ...actions },
+    customActions: {
+      archive: { route: (todo: Todo) => `/todos/${todo.id}/archive`, method: 'post' },
+    },
+    select: 'multiple',
+  });
+  store.setList([
+    { id: 1, title: 'a' },
+    { id: 2, title: 'b' },
+    { id: 3, title: 'c' },
+    { id: 4, title: 'd' },
+  ]);
+  store.setSelectedIds(['1', '2', '3']);
+  return store;
+};
+
+describe('useSelectionActions', () => {
+  it('should delete the selection and keep the failed ids selected', async () => {
+    const axios = jest.fn((config: any) => config.url === '/todos/2'
+      ? Promise.reject(new Error('Forbidden'))
+      : Promise.resolve({ data: null }));
+    const store = createStore(axios);
+    const onError = jest.fn();
+
+    const { result } = renderHook(() => useSelectionActions(store));
+    let outcome: any;
+    await act(async () => { outcome = await result.current.deleteSelected({ onError }); });
+
+    expect(axios.mock.calls.map(([config]) => [config.method, config.url])).toEqual([
+      ['delete', '/todos/1'],
+      ['delete', '/todos/2'],
+      ['delete', '/todos/3'],
+    ]);
+    expect(Array.from(store.getState().data!.keys())).toEqual(['2', '4']);
+    expect(store.getState().selectedIds).toEqual(['2']);
+    expect(outcome.failed.map((f: any) => f.item.id)).toEqual([2]);
+    expect(onError).toHaveBeenCalledWith(expect.any(BulkActionError));
+    expect(result.current.progress).toEqual({ done: 3, total: 3, failed: 1 });
+    expect(result.current.isRunning).toBe(false);
+  });
+
+  it('should unselect deleted ids the store does not hold', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: null });
+    const store = createStore(axios);
+    store.setSelectedIds(['1', '5']);
+
+    const { result } = renderHook(() => useSelectionActions(store));
+    let outcome: any;
+    await act(async () => { outcome = await result.current.deleteSelected(); });
+
+    expect(axios.mock.calls.map(([config]) => config.url)).toEqual(['/todos/1', '/todos/5']);
+    expect(outcome.succeeded).toEqual([{ id: 1, title: 'a' }, { id: 5 }]);
+    expect(store.getState().selectedIds).toEqual([]);
+  });
+
+  it('should report progress as items finish', async () => {
+    const resolvers: (() => void)[] = [];
+    const axios = jest.fn((config: any) => new Promise((resolve) => {
+      resolvers.push(() => resolve({ data: { ...config.data } }));
+    }));
+    const store = createStore(axios);
+
+    const { result } = renderHook(() => useSelectionActions(store));
+    let promise: Promise<any>;
+    act(() => { promise = result.current.updateSelected({ done: true }); });
+    expect(result.current.progress).toEqual({ done: 0, total: 3, failed: 0 });
+    expect(result.current.isRunning).toBe(true);
+
+    await act(async () => {
+      resolvers[0]();
+      await flush();
+    });
+    expect(result.current.progress).toEqual({ done: 1, total: 3, failed: 0 });
+
+    await act(async () => {
+      resolvers[1]();
+      resolvers[2]();
+      await promise;
+    });
+    expect(axios.mock.calls[0][0]).toMatchObject({ method: 'patch', url: '/todos/1', data: { id: 1, done: true } });
+    expect(store.getState().data!.get('3')).toEqual({ id: 3, title: 'c', done: true });
+    expect(store.getState().data!.get('4')).toEqual({ id: 4, title: 'd' });
+    expect(store.getState().selectedIds).toEqual(['1', '2', '3']);
+    expect(result.current.isRunning).toBe(false);
+  });
+
+  it('should use the bulk route when configured', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: null });
+    const store = createStore(axios, { bulkDelete: { route: '/todos/bulk-delete', method: 'post' } });
+    const onProgress = jest.fn();
+
+    const { result } = renderHook(() => useSelectionActions(store));
+    await act(async () => { await result.current.deleteSelected({ onProgress }); });
+
+    expect(axios).toHaveBeenCalledTimes(1);
+    expect(axios).toHaveBeenCalledWith(expect.objectContaining({ url: '/todos/bulk-delete', data: [1, 2, 3] }));
+    expect(onProgress).toHaveBeenCalledWith({ done: 3, total: 3, failed: 0 });
+    expect(store.getState().selectedIds).toEqual([]);
+  });
+
+  it('should run a custom action on every selected instance', async () => {
+    const axios = jest.fn().mockResolvedValue({ data: { ok: true } });
+    const store = createStore(axios);
+
+    const { result } = renderHook(() => useSelectionActions(store));
+    let outcome: any;
+    await act(async () => { outcome = await result.current.runOnSelected('archive', { limit: 1 }); });
+
+    expect(axios.mock.calls.map(([config]) => [config.method, config.url])).toEqual([
+      ['post', '/todos/1/archive'],
+      ['post', '/todos/2/archive'],
+      ['post', '/todos/3/archive'],
+    ]);
+    expect(outcome.succeeded.map((todo: Todo) => todo.id)).toEqual([1, 2, 3]);
+    expect(store.getState().loadingState['bulk:archive']).toMatchObject({ isLoading: false, error: null });
+    expect(store.getState().data!.size).toBe(4);
+  });
+
+  it('should do nothing without a selection', async () => {
+    const axios = jest.fn();
+    const store = createStore(axios);
+    store.setSelectedIds([]);
+
+    const { result } = renderHook(() => useSelectionActions(store));
+    let outcome: any;
+    await act(async () => { outcome = await result.current.deleteSelected(); });
+
+    expect(axios).not.toHaveBeenCalled();
+    expect(outcome).toEqual({ succeeded: [], failed: [] });
+    expect(result.current.progress).toEqual({ done: 0, total: 0, failed: 0 });
+  });
+});
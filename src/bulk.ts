@@ -0,0 +1,373 @@
+import {
+  initiateAction,
+  finishAction,
+  actionError,
+  setLoadingState,
+  getLoadingState,
+} from "./loadingState";
+import { getPendingRequests, releaseRequest, linkSignal, type PendingRequest } from "./concurrency";
+import { normalizeInstances } from "./normalize";
+import { deserializeDocument, getJsonApiPrepare, storeIncluded, withJsonApiHeaders } from "./jsonapi";
+import { getRetryOptions, withRetry } from "./retry";
+import { runInvalidations } from "./invalidation";
+import { getDetailRoute } from "./config";
+
+import type { Method, RequestOptions } from "./transport";
+import type { CrudStore, CrudState } from "./createStoreRegistry";
+import type { Config, ValidatedConfig, AsyncFunction, ValidCustomActionConfig, BulkConfig, Route, RetryConfig, CallbackContext } from "./config";
+
+export type BulkActionKey = 'bulkCreate' | 'bulkUpdate' | 'bulkDelete';
+
+export const bulkActionKeys: BulkActionKey[] = ['bulkCreate', 'bulkUpdate', 'bulkDelete'];
+
+// The single action whose route, method and prepare a bulk action uses when
+// it has no route of its own
+const singleActions = {
+  bulkCreate: 'create',
+  bulkUpdate: 'update',
+  bulkDelete: 'delete',
+} as const;
+
+const defaultMethods: { [A in BulkActionKey]: Method } = {
+  bulkCreate: 'post',
+  bulkUpdate: 'patch',
+  bulkDelete: 'delete',
+};
+
+export type BulkFailure<T> = { item: Partial<T>; error: any };
+
+export type BulkResult<T> = {
+  // Instances returned by the server, or the items sent when it returned none.
+  // bulkDelete always lists the items sent.
+  succeeded: Partial<T>[];
+  failed: BulkFailure<T>[];
+};
+
+// Items finished (succeeded or failed) out of the total, and how many failed
+export type BulkProgress = { done: number; total: number; failed: number };
+
+// Per-call props for bulk actions
+export type BulkFuncProps<T = any> = {
+  params?: any;
+  callback?: (result: BulkResult<T>, context: CallbackContext<Partial<T>[]>) => void;
+  onError?: (error: any) => void;
+  // Merged into every request, e.g. { headers }
+  requestOptions?: RequestOptions;
+  // Deprecated alias of requestOptions
+  axiosConfig?: RequestOptions;
+  args?: any;
+  // Overrides the action's `retry` setting
+  retry?: RetryConfig;
+  // Aborts the requests that haven't finished; items not sent yet fail
+  signal?: AbortSignal;
+  // Called as items finish; once at the end with a bulk route
+  onProgress?: (progress: BulkProgress) => void;
+};
+
+// Stored in loadingState.error and passed to onError when some of the items
+// failed. The store still has the changes of the items that succeeded.
+export class BulkActionError<T = any> extends Error {
+  succeeded: Partial<T>[];
+  failed: BulkFailure<T>[];
+
+  constructor({ succeeded, failed }: BulkResult<T>) {
+    super(`${failed.length} of ${succeeded.length + failed.length} items failed`);
+    // Restore the prototype chain, which is lost when compiling to ES5
+    Object.setPrototypeOf(this, BulkActionError.prototype);
+    this.name = 'BulkActionError';
+    this.succeeded = succeeded;
+    this.failed = failed;
+  }
+}
+
+export type Settled<R> = { ok: true; value: R } | { ok: false; error: any };
+
+const abortedError = () => new Error('Aborted');
+
+const DEFAULT_LIMIT = 5;
+
+// Runs `run` for every item, at most `limit` at a time, and resolves with the
+// outcomes in item order. Items not started when `signal` aborts fail.
+// `onSettled` is called as each item finishes.
+export async function mapWithLimit<I, R>(
+  items: I[],
+  limit: number,
+  run: (item: I, index: number) => Promise<R>,
+  signal?: AbortSignal,
+  onSettled?: (outcome: Settled<R>, index: number) => void,
+): Promise<Settled<R>[]> {
+  const results: Settled<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      if (signal?.aborted) {
+        results[index] = { ok: false, error: abortedError() };
+      } else {
+        try {
+          results[index] = { ok: true, value: await run(items[index], index) };
+        } catch (error) {
+          results[index] = { ok: false, error };
+        }
+      }
+      onSettled?.(results[index], index);
+    }
+  };
+  const workers = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+type BulkPlan<T> = {
+  // Loading state key
+  key: string;
+  config: BulkConfig<T>;
+  // Request sent per item when config.route is null, as this action
+  single: { action: string; method: Method; route: Route; prepare: ((data: any, options: any) => any) | null };
+  // Whether the responses are the instances to report as succeeded, rather
+  // than the items sent
+  returnsInstances: boolean;
+  // Writes the result to the store
+  apply: (result: BulkResult<T>) => unknown;
+};
+
+// Calls always run in parallel with each other
+function createBulkAction<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  { key, config, single, returnsInstances, apply }: BulkPlan<T>,
+) {
+  const { transport, id: idKey } = store.config;
+  const isJsonApi = store.config.format === 'jsonapi';
+  const pending = getPendingRequests(store, key);
+  const hasId = (instance: any) => instance != null && typeof instance === 'object' && instance[idKey] != null;
+
+  const execute = async (request: PendingRequest, items: Partial<T>[], props: BulkFuncProps<T>) => {
+    const { params, callback, onError: callerOnError, requestOptions, axiosConfig, args, retry: callerRetry, onProgress } = props;
+    const { signal } = request.controller;
+    const retry = getRetryOptions(config.retry, callerRetry);
+    const options = { ...axiosConfig, ...requestOptions };
+    const send = (action: string, method: Method, route: Route, data: any, prepare: ((data: any, options: any) => any) | null) =>
+      withRetry(
+        () => transport.request({
+          ...isJsonApi ? withJsonApiHeaders(options, true) : options,
+          signal,
+          action,
+          args,
+          method,
+          url: typeof route === 'function' ? route(data, { args, params }) : route,
+          params,
+          data: typeof prepare === 'function' ? prepare(data, { args, params }) : data,
+        }),
+        retry,
+        signal,
+        (retryCount) => setLoadingState(store, key, { retryCount, isRetrying: true }),
+      ).then((response) => {
+        if (!isJsonApi) return response;
+        storeIncluded(store.registry, response.data, store.config.jsonApi.stores);
+        return { ...response, data: deserializeDocument(response.data, idKey) };
+      });
+
+    initiateAction(store, key);
+
+    const result: BulkResult<T> = { succeeded: [], failed: [] };
+    const progress: BulkProgress = { done: 0, total: items.length, failed: 0 };
+    let responseData: any;
+    if (config.route !== null) {
+      // One request for every item
+      try {
+        const response = await send(key, config.method, config.route, items, config.prepare);
+        responseData = response.data;
+        const list = config.extractList
+          ? config.extractList(response.data)
+          : Array.isArray(response.data) ? response.data : null;
+        result.succeeded = returnsInstances && list ? list : items;
+      } catch (error) {
+        result.failed = items.map((item) => ({ item, error }));
+      }
+      onProgress?.({ ...progress, done: items.length, failed: result.failed.length });
+    } else {
+      // One request per item
+      const outcomes = await mapWithLimit(
+        items,
+        config.limit,
+        (item) => send(single.action, single.method, single.route, item, single.prepare),
+        signal,
+        (outcome) => {
+          progress.done++;
+          if (!outcome.ok) progress.failed++;
+          onProgress?.({ ...progress });
+        },
+      );
+      outcomes.forEach((outcome, index) => {
+        if (!outcome.ok) {
+          result.failed.push({ item: items[index], error: outcome.error });
+        } else {
+          const data = outcome.value.data;
+          result.succeeded.push(returnsInstances && hasId(data) ? data : items[index]);
+        }
+      });
+      responseData = result.succeeded;
+    }
+
+    // Everything that succeeded is written at once, even when aborted
+    await apply(result);
+
+    releaseRequest(pending, request);
+    if (signal.aborted) {
+      await setLoadingState(store, key, { isLoading: pending.length > 0, isRetrying: false });
+      return result;
+    }
+
+    if (result.succeeded.length) {
+      runInvalidations(store.registry, config.invalidates, items, responseData);
+    }
+
+    if (result.failed.length) {
+      const error = new BulkActionError(result);
+      await actionError(store, key, error);
+      if (pending.length) await setLoadingState(store, key, { isLoading: true });
+      if (!config.onError && !callerOnError) {
+        console.error(error);
+      }
+      config.onError?.(error);
+      callerOnError?.(error);
+      return result;
+    }
+
+    const context = { data: items, args, params };
+    config.onResponse?.(responseData, context);
+    act.onResponse?.(responseData, context);
+    config.callback?.(result, context);
+    callback?.(result, context);
+    if (pending.length) {
+      await setLoadingState(store, key, { response: result, isRetrying: false });
+    } else {
+      await finishAction(store, key, result);
+    }
+    return result;
+  };
+
+  const act = Object.assign(
+    (items: Partial<T>[], props: BulkFuncProps<T> = {}): Promise<BulkResult<T>> => {
+      const { signal } = props;
+      if (signal?.aborted || !items.length) return Promise.resolve({ succeeded: [], failed: [] });
+
+      const request: PendingRequest = {
+        promise: Promise.resolve(),
+        controller: new AbortController(),
+        replacedBy: null,
+        instanceId: null,
+        signals: [],
+        // Settles in execute once the requests that were sent have finished
+        abort: () => request.controller.abort(),
+      };
+      request.promise = (async () => {
+        try {
+          return await execute(request, items, props);
+        } finally {
+          releaseRequest(pending, request);
+        }
+      })();
+      pending.push(request);
+      linkSignal(request, signal);
+      return request.promise;
+    },
+    getLoadingState(store, key),
+    {
+      onResponse: undefined as ((data: any, context: CallbackContext<Partial<T>[]>) => void) | undefined,
+      abort: () => pending.slice().forEach((request) => request.abort()),
+    },
+  );
+  return act;
+}
+
+// Creates a callable bulk action bound to the store. Without bulkCreate,
+// bulkUpdate or bulkDelete in the config, it sends one request per item.
+export function getBulkAction<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  actionKey: BulkActionKey,
+) {
+  const { actions, id: idKey, detailKey, route: storeRoute, onError } = store.config;
+  const config = (actions as Record<string, BulkConfig<T> | undefined>)[actionKey] ?? {
+    method: defaultMethods[actionKey],
+    prepare: null,
+    callback: null,
+    onError,
+    onResponse: null,
+    route: null,
+    extractList: null,
+    limit: DEFAULT_LIMIT,
+  } as BulkConfig<T>;
+  const single = (actions as Record<string, AsyncFunction<T> | undefined>)[singleActions[actionKey]];
+  const _getState = store.getState as () => CrudState<T, any>;
+  const hasId = (instance: any) => instance != null && typeof instance === 'object' && instance[idKey] != null;
+
+  return createBulkAction(store, {
+    key: actionKey,
+    // Without prepare, bulkDelete sends the ids of the items
+    config: actionKey === 'bulkDelete' && !config.prepare
+      ? { ...config, prepare: (items: any[]) => items.map((item) => item[idKey]) }
+      : config,
+    single: {
+      action: singleActions[actionKey],
+      method: single?.method ?? defaultMethods[actionKey],
+      route: single?.route ?? (actionKey === 'bulkCreate' ? storeRoute : getDetailRoute(storeRoute, detailKey)),
+      // Items are sent as JSON:API documents one by one
+      prepare: store.config.format === 'jsonapi' && actionKey !== 'bulkDelete'
+        ? getJsonApiPrepare(store, single?.prepare)
+        : single?.prepare ?? null,
+    },
+    returnsInstances: actionKey !== 'bulkDelete',
+    apply: ({ succeeded }) => {
+      const state = _getState();
+      if (actionKey === 'bulkDelete') {
+        const ids = succeeded.filter(hasId).map((item) => (item as any)[idKey]);
+        return ids.length ? state.deleteMany(ids) : undefined;
+      }
+      const instances = normalizeInstances(store, succeeded.filter(hasId) as T[]);
+      if (!instances.length) return undefined;
+      return actionKey === 'bulkCreate' ? state.updateList(instances) : state.patchList(instances);
+    },
+  });
+}
+
+// Runs a custom action once per item, `limit` at a time. Its loading state is
+// kept under `bulk:<name>`, apart from the one of single calls, and nothing is
+// written to the store.
+export function getBulkCustomAction<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  name: keyof C['customActions'] & string,
+  limit: number = DEFAULT_LIMIT,
+) {
+  const custom = (store.config.customActions as Record<string, ValidCustomActionConfig<T>>)[name];
+  return createBulkAction(store, {
+    key: `bulk:${name}`,
+    // The action's callbacks expect the response of a single call
+    config: {
+      method: custom.method,
+      prepare: null,
+      callback: null,
+      onError: custom.onError,
+      onResponse: null,
+      route: null,
+      extractList: null,
+      limit,
+      retry: custom.retry,
+    },
+    single: { action: name, method: custom.method, route: custom.route, prepare: custom.prepare ?? null },
+    returnsInstances: false,
+    apply: () => undefined,
+  });
+}
@@ -0,0 +1,38 @@
+import type { CrudStore, CrudState } from "./createStoreRegistry";
+import type { Config, ValidatedConfig, CacheConfig } from "./config";
+
+export type CacheStatus = {
+  isStale: boolean;
+  isRefetching: boolean;
+};
+
+// Whether data fetched at `fetchedAt` is older than `maxAge`. Data that was
+// never fetched (set directly on the store) counts as old, unless the max age
+// is Infinity.
+export const isOlderThan = (
+  fetchedAt: number | null | undefined,
+  maxAge: number,
+  now: number = Date.now(),
+) => maxAge !== Infinity && (fetchedAt == null || now - fetchedAt >= maxAge);
+
+// Action-level staleTime/cacheTime override the store-level ones
+export function getCacheTimes<T, K extends string, C extends Config<K, T>>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  action: 'get' | 'getList',
+) {
+  const actionConfig = (store.config.actions as { [action: string]: CacheConfig | undefined })[action];
+  return {
+    staleTime: actionConfig?.staleTime ?? store.config.staleTime ?? Infinity,
+    cacheTime: actionConfig?.cacheTime ?? store.config.cacheTime ?? Infinity,
+  };
+}
+
+// An instance is as fresh as its last `get` or the last list fetch, whichever
+// is more recent
+export const getInstanceFetchedAt = (
+  state: Pick<CrudState<any, any>, 'fetchedAt' | 'listFetchedAt'>,
+  id: string,
+): number | null => {
+  const times = [state.fetchedAt[id], state.listFetchedAt].filter((t): t is number => t != null);
+  return times.length ? Math.max(...times) : null;
+};
@@ -0,0 +1,83 @@
+export type PendingRequest = {
+  promise: Promise<any>;
+  controller: AbortController;
+  replacedBy: Promise<any> | null;
+  // detailKey value of the instance the request acts on
+  instanceId: string | null;
+  // Signals of the callers sharing the request, null when one of them passed
+  // none and the request has to run to the end
+  signals: AbortSignal[] | null;
+  // Aborts the request and settles its loading state
+  abort: () => void;
+};
+
+// Running and queued requests per store and loading state key. Kept outside
+// the Zustand state since promises and controllers aren't plain data.
+const pendingRequests = new WeakMap<object, { [key: string]: PendingRequest[] }>();
+
+export function getPendingRequests(store: object, key: string): PendingRequest[] {
+  let byKey = pendingRequests.get(store);
+  if (!byKey) {
+    byKey = {};
+    pendingRequests.set(store, byKey);
+  }
+  return byKey[key] || (byKey[key] = []);
+}
+
+// Removed as soon as the request settles, before its final loading state is
+// written, so a call made in response to that update is not dropped
+export function releaseRequest(pending: PendingRequest[], request: PendingRequest) {
+  const index = pending.indexOf(request);
+  if (index !== -1) pending.splice(index, 1);
+}
+
+// A request is only aborted by its callers' signals when every caller passed
+// one and all of them have aborted
+export function linkSignal(request: PendingRequest, signal: AbortSignal | undefined) {
+  if (!signal) {
+    request.signals = null;
+    return;
+  }
+  if (!request.signals) return;
+  request.signals.push(signal);
+  signal.addEventListener('abort', () => {
+    if (request.signals?.every((s) => s.aborted)) request.abort();
+  }, { once: true });
+}
+
+// Keeps the running request for this key (and instance) alive until the
+// returned function is called, for hooks that rely on a request another
+// caller started
+export function holdRequest(store: object, key: string, instanceId: string | null = null): () => void {
+  const request = getPendingRequests(store, key)
+    .filter((r) => instanceId === null || r.instanceId === instanceId)
+    .pop();
+  if (!request) return () => {};
+  const controller = new AbortController();
+  linkSignal(request, controller.signal);
+  return () => controller.abort();
+}
+
+// Keys with requests of this action, including those of query lists
+export function getPendingKeys(store: object, action: string): string[] {
+  return Object.keys(pendingRequests.get(store) || {})
+    .filter((key) => key === action || key.startsWith(`${action}:`));
+}
+
+// Start sequence (see LoadingStateValue) of the request whose response was
+// written last, per store and key. Responses of requests that started before
+// it are outdated.
+const writtenSequences = new WeakMap<object, { [key: string]: number }>();
+
+export function isOutdated(store: object, key: string, sequence: number) {
+  return (writtenSequences.get(store)?.[key] ?? -1) > sequence;
+}
+
+export function markWritten(store: object, key: string, sequence: number) {
+  let byKey = writtenSequences.get(store);
+  if (!byKey) {
+    byKey = {};
+    writtenSequences.set(store, byKey);
+  }
+  byKey[key] = Math.max(byKey[key] ?? -1, sequence);
+}
@@ -1,4 +1,8 @@
-import type { Method, AxiosInstance } from "axios";
+import type { AxiosInstance } from "axios";
+import { axiosTransport } from "./transport";
+import type { Method, Transport } from "./transport";
+import type { JsonApiConfig } from "./jsonapi";
+import type { PersistConfig } from "./persist";
 
 export type Prettify<T> = { [K in keyof T]: T[K] } & {};
 
@@ -40,6 +44,32 @@ export type ListCallback = (responseData: any, context: ListCallbackContext) =>
 export type OnResponse<D = any> = (responseData: any, context: CallbackContext<D>) => void;
 export type ListOnResponse = (responseData: any, context: ListCallbackContext) => void;
 
+// How an action handles a call while a previous call is still in flight:
+// - 'drop': the call is not sent and resolves with the in-flight result (default)
+// - 'queue': the call waits until the previous calls have settled
+// - 'replace': the previous call is aborted and resolves with the new result
+// - 'parallel': the call runs alongside the previous calls
+export type Concurrency = 'drop' | 'queue' | 'replace' | 'parallel';
+
+export type RetryOptions = {
+  // Maximum number of attempts, including the first (default: 3)
+  attempts?: number;
+  // Milliseconds to wait before retry number `attempt` (default: 1s, 2s, 4s, ... up to 30s)
+  backoff?: (attempt: number, error: any) => number;
+  // Whether the error is worth retrying (default: network errors, 408, 429 and 5xx)
+  retryIf?: (error: any, attempt: number) => boolean;
+};
+
+// Maximum number of attempts, options, or false for none
+export type RetryConfig = number | RetryOptions | false;
+
+// Registry store to mark stale after the action succeeds: all of it, or the
+// instances with the ids returned by `id`
+export type Invalidation = string | {
+  key: string;
+  id?: (data: any, response: any) => string | number | (string | number)[] | null | undefined;
+};
+
 export type AsyncFunction<T> = {
   callback: Callback,
   onError: OnError,
@@ -47,6 +77,9 @@ export type AsyncFunction<T> = {
   method: Method;
   prepare: Prepare | null,
   route: Route;
+  concurrency?: Concurrency;
+  retry?: RetryConfig;
+  invalidates?: Invalidation[];
 }
 
 export interface AsyncListFunction<T> extends Omit<AsyncFunction<T>, 'prepare' | 'callback' | 'onResponse'> {
@@ -56,12 +89,42 @@ export interface AsyncListFunction<T> extends Omit<AsyncFunction<T>, 'prepare' |
 export interface AsyncDetailFunction<T> extends Omit<AsyncFunction<T>, 'prepare'> {
   prepare: DetailPrepare | null,
 };
-export type GetListConfig<T> = AsyncListFunction<T>;
-export type CreateConfig<T> = AsyncDetailFunction<T>;
+// Apply the mutation to the store before the request resolves and roll it
+// back when the request fails
+export type OptimisticConfig = {
+  optimistic?: boolean;
+}
+
+// Milliseconds after a fetch that data is considered stale (refetched in the
+// background on mount) or expired (hidden and refetched on mount)
+export type CacheConfig = {
+  staleTime?: number;
+  cacheTime?: number;
+}
 
-export type GetConfig<T> = AsyncDetailFunction<T>;
-export type UpdateConfig<T> = AsyncDetailFunction<T>;
-export type DeleteConfig<T> = AsyncFunction<T>;
+// Milliseconds between fetches while a useGet or useGetList hook is mounted
+export type PollingConfig = {
+  refetchInterval?: number;
+}
+
+export type GetListConfig<T> = AsyncListFunction<T> & CacheConfig & PollingConfig;
+export type CreateConfig<T> = AsyncDetailFunction<T> & OptimisticConfig;
+
+export type GetConfig<T> = AsyncDetailFunction<T> & CacheConfig & PollingConfig;
+export type UpdateConfig<T> = AsyncDetailFunction<T> & OptimisticConfig;
+export type DeleteConfig<T> = AsyncFunction<T> & OptimisticConfig;
+
+// Bulk actions send every item in one request to `route`. Without a route,
+// they send one request per item to the route of the matching single action,
+// at most `limit` at a time.
+export type BulkConfig<T> = Omit<AsyncFunction<T>, 'route' | 'concurrency' | 'callback'> & {
+  route: Route | null;
+  // Receives { succeeded, failed } when every item succeeded
+  callback: Callback<any[]> | null;
+  // Instances in the bulk response (default: the response data when it is an array)
+  extractList: ((data: any) => any[]) | null;
+  limit: number;
+};
 
 export interface ValidCustomActionConfig<T> extends AsyncFunction<T> {}
 
@@ -83,6 +146,11 @@ export type Pagination = {
   count: number;
   offset: number;
   limit: number;
+  // Cursor pagination: the cursor of the current page (null for the first
+  // page) and the cursors of its neighbours, as returned by `prepare`
+  cursor?: string | null;
+  nextCursor?: string | null;
+  prevCursor?: string | null;
 }
 
 export const defaultPagination: Pagination = { count: 0, offset: 0, limit: 0 };
@@ -92,12 +160,22 @@ export type PreparePaginationParams = (pagination: Pagination) => Record<string,
 
 export type ExtractList = (responseData: any) => any[];
 
+// 'replace': each page replaces the list (default)
+// 'append': pages after the first are added to the list, e.g. for infinite scroll
+export type PaginationMode = 'replace' | 'append';
+
+// 'offset': pages are addressed by offset and limit (default)
+// 'cursor': pages are addressed by the cursors `prepare` returns
+export type PaginationType = 'offset' | 'cursor';
+
 export type PaginationInputConfig = {
   limit?: number;
   offset?: number;
   prepare?: PreparePagination;
   prepareParams?: PreparePaginationParams;
   extractList?: ExtractList;
+  mode?: PaginationMode;
+  type?: PaginationType;
 }
 
 export type PaginationConfig = {
@@ -106,6 +184,83 @@ export type PaginationConfig = {
   prepare?: PreparePagination;
   prepareParams?: PreparePaginationParams;
   extractList?: ExtractList;
+  mode?: PaginationMode;
+  type?: PaginationType;
+}
+
+// Whether the list is at its first page, which starts a fresh list in append mode
+export const isFirstPage = (config: PaginationConfig, pagination: Pagination) =>
+  config.type === 'cursor' ? pagination.cursor == null : !pagination.offset;
+
+// Links to instances in another store of the same registry, by store key.
+// belongsTo: this instance holds the related id in `foreignKey`.
+// hasMany: related instances point back with `foreignKey`, or this instance
+// holds their ids in `localKey`.
+export type BelongsToRelation = {
+  type: 'belongsTo';
+  key: string;
+  foreignKey: string;
+}
+
+export type HasManyRelation = {
+  type: 'hasMany';
+  key: string;
+  foreignKey?: string;
+  localKey?: string;
+}
+
+export type Relation = BelongsToRelation | HasManyRelation;
+
+export type Relations = {
+  [name: string]: Relation;
+}
+
+export type Filters = {
+  [name: string]: any;
+};
+
+export type OrderingDirection = 'asc' | 'desc';
+
+export type Ordering = {
+  field: string;
+  direction: OrderingDirection;
+};
+
+// Ordering as an object, or as a field name with a leading '-' for descending
+export type OrderingInput = Ordering | string;
+
+// Turns the filters and ordering into getList params
+export type PrepareFilterParams = (filters: any, ordering: Ordering | null) => Record<string, any>;
+
+export type FiltersConfig<F extends Filters = Filters> = {
+  // Filter values to start with and to go back to on clearFilters
+  initial: F;
+  prepareParams?: PrepareFilterParams;
+  // Fetch the list again when a filter or the ordering changes
+  refetch?: boolean;
+};
+
+// Filter values of a store, typed by `filters.initial` in its config
+export type FiltersOf<C> = C extends { filters: { initial: infer F extends Filters } } ? F : Filters;
+
+export type ValidFiltersConfig = {
+  initial: Filters;
+  prepareParams: PrepareFilterParams;
+  refetch: boolean;
+};
+
+// Embedded entities to move into other stores of the registry, by field. A
+// string is the target store key. The object form can replace the embedded
+// value with its id (or list of ids) and give a schema for the entity's own
+// embedded entities; without one, the target store's `normalize` is used.
+export type NormalizeEntity = string | {
+  key: string;
+  replaceWithId?: boolean;
+  normalize?: NormalizeSchema;
+}
+
+export type NormalizeSchema = {
+  [field: string]: NormalizeEntity;
 }
 
 export type State<T> = {
@@ -118,6 +273,9 @@ export type Actions<T> = {
   create?: boolean | Partial<CreateConfig<T>>;
   update?: boolean | Partial<UpdateConfig<T>>;
   delete?: boolean | Partial<DeleteConfig<T>>;
+  bulkCreate?: boolean | Partial<BulkConfig<T>>;
+  bulkUpdate?: boolean | Partial<BulkConfig<T>>;
+  bulkDelete?: boolean | Partial<BulkConfig<T>>;
 }
 
 
@@ -128,12 +286,39 @@ export type BaseConfig<T> = {
   state?: State<T>;
   route: Route;
   customActions?: CustomActions<T>;
-  axios: AxiosInstance;
+  // How requests are sent: a transport, or an axios instance. Falls back to
+  // the registry's transport.
+  transport?: Transport;
+  axios?: AxiosInstance;
   includeList?: boolean;
   includeRecord?: boolean;
   onError?: OnError;
   pagination?: true | PaginationInputConfig;
   select?: 'single' | 'multiple';
+  staleTime?: number;
+  cacheTime?: number;
+  persist?: PersistConfig;
+  relations?: Relations;
+  normalize?: NormalizeSchema;
+  sync?: 'broadcast';
+  filters?: FiltersConfig;
+  ordering?: OrderingInput | null;
+  refetchOnFocus?: boolean;
+  refetchOnReconnect?: boolean;
+  // Format of the request and response bodies: 'jsonapi' reads and writes
+  // JSON:API documents instead of plain instances
+  format?: 'jsonapi';
+  jsonApi?: JsonApiConfig;
+};
+
+// Defaults for every store in a registry
+export type RegistryOptions = {
+  // Transport of the stores that don't have their own transport or axios
+  transport?: Transport;
+  // Fetch what mounted hooks show again when the page becomes visible
+  refetchOnFocus?: boolean;
+  // Or when the browser comes back online
+  refetchOnReconnect?: boolean;
 };
 
 export interface Config<K extends string, T> extends BaseConfig<T> {}
@@ -148,6 +333,9 @@ type ValidatedActionTypes<T> = {
   create: CreateConfig<T>;
   update: UpdateConfig<T>;
   delete: DeleteConfig<T>;
+  bulkCreate: BulkConfig<T>;
+  bulkUpdate: BulkConfig<T>;
+  bulkDelete: BulkConfig<T>;
 };
 
 type ActionConfigIfExists<
@@ -169,7 +357,8 @@ export type ValidatedConfig<K extends string, T, TConfig extends Config<K, T>> =
   state: {
     [K in keyof TConfig['state']]: TConfig['state'][K];
   };
-  axios: AxiosInstance;
+  axios: AxiosInstance | null;
+  transport: Transport;
   onError: OnError | null;
 
   actions: {
@@ -182,6 +371,19 @@ export type ValidatedConfig<K extends string, T, TConfig extends Config<K, T>> =
   includeRecord: boolean;
   select: 'single' | 'multiple' | null;
   pagination: PaginationConfig | null;
+  staleTime: number;
+  cacheTime: number;
+  persist: PersistConfig | null;
+  relations: Relations;
+  normalize: NormalizeSchema | null;
+  sync: 'broadcast' | null;
+  filters: ValidFiltersConfig | null;
+  ordering: Ordering | null;
+  // null follows the registry
+  refetchOnFocus: boolean | null;
+  refetchOnReconnect: boolean | null;
+  format: 'jsonapi' | null;
+  jsonApi: JsonApiConfig;
 }>
 
 export const getDetailRoute = (route: Route | null, detailKey: string) => (
@@ -201,12 +403,31 @@ export const getDetailRoute = (route: Route | null, detailKey: string) => (
       }
 );
 
+export const parseOrdering = (ordering: OrderingInput | null | undefined): Ordering | null => {
+  if (!ordering) return null;
+  if (typeof ordering !== 'string') return ordering;
+  return ordering.startsWith('-')
+    ? { field: ordering.slice(1), direction: 'desc' }
+    : { field: ordering, direction: 'asc' };
+};
+
+// Filter values that are set, and the ordering as `ordering: 'field'` or
+// `ordering: '-field'`
+export const defaultPrepareFilterParams: PrepareFilterParams = (filters, ordering) => ({
+  ...Object.keys(filters).reduce(
+    (o, name) => filters[name] == null || filters[name] === '' ? o : { ...o, [name]: filters[name] },
+    {} as Record<string, any>
+  ),
+  ...ordering ? { ordering: `${ordering.direction === 'desc' ? '-' : ''}${ordering.field}` } : {},
+});
+
 export const validateConfig = <
   K extends string, 
   T,
   C extends Config<K, T>,
 >(
-  config: C
+  config: C,
+  registryOptions: RegistryOptions = {},
 ): ValidatedConfig<K, T, C> => {
   const {
     // The field used to key the internal Map (default: 'id')
@@ -220,6 +441,9 @@ export const validateConfig = <
     includeList = false,
     includeRecord = false,
     pagination = null,
+    // Data never goes stale or expires unless configured
+    staleTime = Infinity,
+    cacheTime = Infinity,
   } = config;
 
   const id = configId ?? 'id';
@@ -240,11 +464,19 @@ export const validateConfig = <
 
   const detailRoute = getDetailRoute(route, detailKey);
 
+  const transport = config.transport
+    ?? (config.axios ? axiosTransport(config.axios) : null)
+    ?? registryOptions.transport;
+  if (!transport) {
+    throw new Error('A store needs a transport or an axios instance, in its config or in the registry options');
+  }
+
   const newConfig = {
     detailKey,
     id,
     state: (state || {}) as { [K in keyof C['state']]: C['state'][K] },
-    axios: config.axios,
+    axios: config.axios ?? null,
+    transport,
     onError,
     includeList,
     includeRecord,
@@ -308,6 +540,45 @@ export const validateConfig = <
             ...typeof actions.delete === 'object' ? actions.delete : {},
           } as DeleteConfig<T>}
         : {},
+      ...actions.bulkCreate
+        ? { bulkCreate: {
+            method: 'post',
+            prepare: null,
+            callback: null,
+            onError,
+            onResponse: null,
+            route: null,
+            extractList: null,
+            limit: 5,
+            ...typeof actions.bulkCreate === 'object' ? actions.bulkCreate : {},
+          } as BulkConfig<T>}
+        : {},
+      ...actions.bulkUpdate
+        ? { bulkUpdate: {
+            method: 'patch',
+            prepare: null,
+            callback: null,
+            onError,
+            onResponse: null,
+            route: null,
+            extractList: null,
+            limit: 5,
+            ...typeof actions.bulkUpdate === 'object' ? actions.bulkUpdate : {},
+          } as BulkConfig<T>}
+        : {},
+      ...actions.bulkDelete
+        ? { bulkDelete: {
+            method: 'delete',
+            prepare: null,
+            callback: null,
+            onError,
+            onResponse: null,
+            route: null,
+            extractList: null,
+            limit: 5,
+            ...typeof actions.bulkDelete === 'object' ? actions.bulkDelete : {},
+          } as BulkConfig<T>}
+        : {},
     },
     select: config.select || null,
     customActions: Object.entries(customActions as CustomActions<T>)
@@ -330,6 +601,24 @@ export const validateConfig = <
     pagination: pagination
       ? { limit: 0, offset: 0, ...(pagination === true ? {} : pagination) }
       : null,
+    staleTime,
+    cacheTime,
+    persist: config.persist || null,
+    relations: config.relations || {},
+    normalize: config.normalize || null,
+    sync: config.sync || null,
+    filters: config.filters || config.ordering !== undefined
+      ? {
+          initial: config.filters?.initial || {},
+          prepareParams: config.filters?.prepareParams || defaultPrepareFilterParams,
+          refetch: config.filters?.refetch ?? false,
+        }
+      : null,
+    ordering: parseOrdering(config.ordering),
+    refetchOnFocus: config.refetchOnFocus ?? null,
+    refetchOnReconnect: config.refetchOnReconnect ?? null,
+    format: config.format ?? null,
+    jsonApi: config.jsonApi || {},
   } as ValidatedConfig<K, T, C>
 
   return newConfig;
@@ -340,7 +629,8 @@ export type ValidConfig<T> = {
   detailKey: string;
   id: string | null;
   state: State<T>;
-  axios: AxiosInstance;
+  axios: AxiosInstance | null;
+  transport: Transport;
   onError: OnError | null;
   actions: {
     get?: GetConfig<T>;
@@ -348,6 +638,9 @@ export type ValidConfig<T> = {
     create?: CreateConfig<T>;
     update?: UpdateConfig<T>;
     delete?: DeleteConfig<T>;
+    bulkCreate?: BulkConfig<T>;
+    bulkUpdate?: BulkConfig<T>;
+    bulkDelete?: BulkConfig<T>;
     }
   customActions?: CustomActions<T>;
   includeList: boolean;
@@ -355,4 +648,17 @@ export type ValidConfig<T> = {
   route?: Route;
   select?: 'single' | 'multiple' | null;
   pagination: PaginationConfig | null;
+  staleTime: number;
+  cacheTime: number;
+  persist: PersistConfig | null;
+  relations: Relations;
+  normalize: NormalizeSchema | null;
+  sync: 'broadcast' | null;
+  filters: ValidFiltersConfig | null;
+  ordering: Ordering | null;
+  // null follows the registry
+  refetchOnFocus: boolean | null;
+  refetchOnReconnect: boolean | null;
+  format: 'jsonapi' | null;
+  jsonApi: JsonApiConfig;
 };
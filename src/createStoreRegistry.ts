@@ -2,41 +2,132 @@
 import { create, type StoreApi, type UseBoundStore } from "zustand";
 import { defaultLoadingState } from "./loadingState";
 import { validateConfig } from "./config";
+import { setupPersistence } from "./persist";
+import { setupSync } from "./sync";
+import { dehydrateStore, hydrateStore } from "./hydration";
+import { createListQuery } from "./queries";
+import { setupFilterRefetch } from "./filters";
 
 import type { LoadingStateValue } from "./loadingState";
-import { defaultPagination } from "./config";
-import type { Config, ValidatedConfig, Pagination, Prettify } from "./config";
+import type { DehydratedRegistry } from "./hydration";
+import { defaultPagination, parseOrdering } from "./config";
+import type { Config, ValidatedConfig, Pagination, Prettify, Filters, FiltersOf, Ordering, OrderingInput, RegistryOptions } from "./config";
+
+// Previous value of an instance, captured before an optimistic mutation.
+// `instance` is undefined when the id was not in the store, `index` is -1 when
+// the main list didn't hold it and `queryIndexes` has the position in each
+// query list that did.
+export type InstanceSnapshotEntry<T> = {
+  id: string;
+  instance: T | undefined;
+  index: number;
+  queryIndexes?: { [queryKey: string]: number };
+  selected: boolean;
+};
+
+export type InstanceSnapshot<T> = {
+  hadData: boolean;
+  entries: InstanceSnapshotEntry<T>[];
+};
+
+// A list fetched with its own params, stored by query key. The instances are
+// kept in the shared `data` Map; the list only holds their ids in server
+// order (null until it is fetched).
+export type ListQuery = {
+  ids: string[] | null;
+  params: any;
+  pagination: Pagination | null;
+  loadingState: LoadingStateValue;
+  fetchedAt: number | null;
+};
+
+// Lists and instances marked stale by invalidate(), until they are fetched
+// again
+export type Invalidated = {
+  list: boolean;
+  queries: string[];
+  ids: string[];
+};
+
+export type ListQueryUpdate = Partial<Omit<ListQuery, 'loadingState'>> & {
+  loadingState?: Partial<LoadingStateValue>;
+};
 
 export type CrudState<T, S> = {
+  // Every instance, of the main list and of the query lists
   data: Map<string, T> | null;
+  // Ids of the main list in order, null until it is set
+  listIds: string[] | null;
   setList: (data: T[] | null) => void;
   patchList: (data: Partial<T>[]) => void;
   updateList: (data: T[]) => void;
+  mergeList: (data: T[]) => void;
   setInstance: (instance: T) => void;
   updateInstance: (instance: T) => void;
   deleteInstance: (instance: T) => void;
+  deleteMany: (ids: (string | number)[]) => void;
+  snapshotInstances: (ids: string[]) => InstanceSnapshot<T>;
+  restoreInstances: (snapshot: InstanceSnapshot<T>) => void;
   loadingState: { [key: string]: LoadingStateValue };
   setLoadingState: (key: string, value: Partial<LoadingStateValue>) => void;
+  instanceLoadingState: { [key: string]: { [id: string]: LoadingStateValue } };
+  setInstanceLoadingState: (key: string, id: string, value: Partial<LoadingStateValue>) => void;
+  listFetchedAt: number | null;
+  fetchedAt: { [id: string]: number };
+  setFetchedAt: (id: string | null, time: number | null) => void;
+  invalidated: Invalidated;
+  invalidate: (id?: string | number | null) => void;
+  queries: { [queryKey: string]: ListQuery };
+  setQuery: (queryKey: string, update: ListQueryUpdate) => void;
+  setQueryList: (queryKey: string, list: T[], append?: boolean) => void;
   state: S;
   patchState: (subState: Partial<S>) => void;
   pagination: Pagination | null;
   setPagination: (partial: Partial<Pagination>) => void;
   selectedIds: string[];
   setSelectedIds: (ids: string[]) => void;
+  filters: Filters;
+  setFilter: (name: string, value: any) => void;
+  clearFilters: () => void;
+  ordering: Ordering | null;
+  setOrdering: (ordering: OrderingInput | null) => void;
+};
+
+type HasFilters<C> = 'filters' extends keyof C ? true : 'ordering' extends keyof C ? true : false;
+
+type FilterMethods<C> = {
+  setFilter: <N extends keyof FiltersOf<C> & string>(name: N, value: FiltersOf<C>[N]) => void;
+  clearFilters: () => void;
+  setOrdering: (ordering: OrderingInput | null) => void;
 };
 
 // Public state type — conditional fields based on config
 type ResolvedCrudState<T, K extends string, C extends Config<K, T>> = Prettify<
   {
     data: Map<string, T> | null;
+    listIds: string[] | null;
     setList: (data: T[] | null) => void;
     patchList: (data: Partial<T>[]) => void;
     updateList: (data: T[]) => void;
+    mergeList: (data: T[]) => void;
     setInstance: (instance: T) => void;
     updateInstance: (instance: T) => void;
     deleteInstance: (instance: T) => void;
+    deleteMany: (ids: (string | number)[]) => void;
+    snapshotInstances: (ids: string[]) => InstanceSnapshot<T>;
+    restoreInstances: (snapshot: InstanceSnapshot<T>) => void;
     loadingState: { [key: string]: LoadingStateValue };
     setLoadingState: (key: string, value: Partial<LoadingStateValue>) => void;
+    instanceLoadingState: { [key: string]: { [id: string]: LoadingStateValue } };
+    setInstanceLoadingState: (key: string, id: string, value: Partial<LoadingStateValue>) => void;
+    listFetchedAt: number | null;
+    fetchedAt: { [id: string]: number };
+    setFetchedAt: (id: string | null, time: number | null) => void;
+    invalidated: Invalidated;
+    invalidate: (id?: string | number | null) => void;
+    queries: { [queryKey: string]: ListQuery };
+      setQuery: (queryKey: string, update: ListQueryUpdate) => void;
+    setQueryList: (queryKey: string, list: T[], append?: boolean) => void;
   }
   & ('state' extends keyof C ? {
       state: C['state'] & {};
@@ -50,15 +141,20 @@ type ResolvedCrudState<T, K extends string, C extends Config<K, T>> = Prettify<
       selectedIds: string[];
       setSelectedIds: (ids: string[]) => void;
     } : {})
+  & (HasFilters<C> extends true ? { filters: Filters; ordering: Ordering | null } & FilterMethods<C> : {})
 >;
 
 type CrudStoreMethods<T, K extends string, C extends Config<K, T>> = {
   setList: (data: T[] | null) => void;
   patchList: (data: Partial<T>[]) => void;
   updateList: (data: T[]) => void;
+  mergeList: (data: T[]) => void;
   setInstance: (instance: T) => void;
   updateInstance: (instance: T) => void;
   deleteInstance: (instance: T) => void;
+  deleteMany: (ids: (string | number)[]) => void;
+  snapshotInstances: (ids: string[]) => InstanceSnapshot<T>;
+  restoreInstances: (snapshot: InstanceSnapshot<T>) => void;
 }
 & ('state' extends keyof C ? {
     patchState: (subState: Partial<C['state'] & {}>) => void;
@@ -68,7 +164,8 @@ type CrudStoreMethods<T, K extends string, C extends Config<K, T>> = {
   } : {})
 & ('select' extends keyof C ? {
     setSelectedIds: (ids: string[]) => void;
-  } : {});
+  } : {})
+& (HasFilters<C> extends true ? FilterMethods<C> : {});
 
 export type CrudStore<
   T,
@@ -88,12 +185,39 @@ export type CrudStore<
   key: K;
   config: V;
   rawConfig: C;
+  registry: StoreRegistry<any>;
 } & CrudStoreMethods<T, K, C>;
 
-export function createStoreRegistry<Models extends Record<string, any>>() {
+// Any store in a registry, for code that resolves stores by key at runtime
+export type AnyCrudStore = CrudStore<any, string, any, any>;
+
+export type StoreRegistry<Models extends Record<string, any>> = {
+  <
+    K extends Extract<keyof Models, string>,
+    C extends Config<K, Models[K]>
+  >(
+    key: K,
+    config: C
+  ): CrudStore<Models[K], K, C, ValidatedConfig<K, Models[K], C>>;
+  // Store created earlier with this key, if any
+  getStore: <K extends Extract<keyof Models, string>>(key: K) => CrudStore<Models[K], K, any, any> | undefined;
+  // JSON-safe snapshot of every created store, e.g. to send from the server
+  dehydrate: () => DehydratedRegistry;
+  // Seeds stores with a snapshot. Stores that were not created yet are seeded
+  // when they are.
+  hydrate: (snapshot: DehydratedRegistry) => void;
+  // Marks the store's data stale, or only the instance with this id. Mounted
+  // hooks fetch it again.
+  invalidate: (key: Extract<keyof Models, string>, id?: string | number | null) => void;
+  options: RegistryOptions;
+};
+
+export function createStoreRegistry<Models extends Record<string, any>>(options: RegistryOptions = {}) {
   const storeRegistry: {
     [K in keyof Models]?: Record<string, any> ;
   } = {};
+  // Snapshots passed to hydrate() for stores that don't exist yet
+  let pendingSnapshots: DehydratedRegistry = {};
 
   function getOrCreateStore<
     K extends Extract<keyof Models, string>,
@@ -104,16 +228,72 @@ export function createStoreRegistry<Models extends Record<string, any>>() {
     rawConfig: C
   ): CrudStore<Models[K], K, C, V> {
     if (!storeRegistry[key]) {
-      const validated = validateConfig<K, Models[K], C>(rawConfig);
+      const validated = validateConfig<K, Models[K], C>(rawConfig, options);
       const { id: mapKey } = validated;
 
-      const zustandStore = create<CrudState<Models[K], C['state']>>((set) => ({
-          data: null,
-          setList: (list) => set({
-            data: list
-              ? new Map(list.map((item) => [String((item as Record<string, unknown>)[mapKey]), item]))
+      // Other filters or ordering make a different list, which starts at its
+      // first page
+      const firstPage = (state: CrudState<Models[K], C['state']>) => state.pagination
+        ? {
+            pagination: {
+              ...state.pagination,
+              offset: 0,
+              ...validated.pagination?.type === 'cursor' ? { cursor: null } : {},
+            },
+          }
+        : {};
+
+      const toEntry = (item: Models[K] | Partial<Models[K]>): [string, Models[K]] => [
+        String((item as Record<string, unknown>)[mapKey]),
+        item as Models[K],
+      ];
+
+      const isQueried = (queries: { [queryKey: string]: ListQuery }, id: string) =>
+        Object.keys(queries).some((key) => queries[key].ids?.includes(id));
+
+      // Takes the ids out of the main list and every query list that holds
+      // them, lowering the count of each
+      const removeIds = (state: CrudState<Models[K], C['state']>, removed: Set<string>) => {
+        const listIds = state.listIds && state.listIds.filter((id) => !removed.has(id));
+        const listRemoved = (state.listIds?.length ?? 0) - (listIds?.length ?? 0);
+        let queries = state.queries;
+        Object.keys(state.queries).forEach((key) => {
+          const query = state.queries[key];
+          const ids = query.ids?.filter((id) => !removed.has(id));
+          if (!ids || ids.length === query.ids!.length) return;
+          if (queries === state.queries) queries = { ...state.queries };
+          queries[key] = {
+            ...query,
+            ids,
+            pagination: query.pagination
+              ? { ...query.pagination, count: Math.max(0, query.pagination.count - (query.ids!.length - ids.length)) }
               : null,
-            selectedIds: [],
+          };
+        });
+        return {
+          listIds,
+          ...state.pagination && listRemoved
+            ? { pagination: { ...state.pagination, count: Math.max(0, state.pagination.count - listRemoved) } }
+            : {},
+          ...queries !== state.queries ? { queries } : {},
+        };
+      };
+
+      const zustandStore = create<CrudState<Models[K], C['state']>>((set, get) => ({
+          data: null,
+          listIds: null,
+          // Instances that query lists hold stay in `data`
+          setList: (list) => set((state) => {
+            const data = new Map((list || []).map(toEntry));
+            const listIds = list ? Array.from(data.keys()) : null;
+            state.data?.forEach((instance, id) => {
+              if (!data.has(id) && isQueried(state.queries, id)) data.set(id, instance);
+            });
+            return {
+              data: listIds || data.size ? data : null,
+              listIds,
+              selectedIds: [],
+            };
           }),
           patchList: (list: Partial<Models[K]>[]) =>
             set((state) => {
@@ -129,27 +309,51 @@ export function createStoreRegistry<Models extends Record<string, any>>() {
           updateList: (list: Models[K][]) =>
             set((state) => {
               const next = new Map(state.data || []);
+              const listIds = (state.listIds || []).slice();
+              const held = new Set(listIds);
               let newCount = 0;
-              list.forEach((item) => {
-                const id = String((item as Record<string, unknown>)[mapKey]);
-                if (!next.has(id)) newCount++;
+              list.map(toEntry).forEach(([id, item]) => {
+                if (!held.has(id)) {
+                  held.add(id);
+                  listIds.push(id);
+                  newCount++;
+                }
                 next.set(id, item);
               });
               return {
                 data: next,
+                listIds,
                 ...state.pagination
                   ? { pagination: { ...state.pagination, count: state.pagination.count + newCount } }
                   : {},
               };
             }),
+          // Upserts like updateList without changing the pagination count, for
+          // instances that reach the store from another store's response
+          mergeList: (list: Models[K][]) =>
+            set((state) => {
+              const next = new Map(state.data || []);
+              const listIds = (state.listIds || []).slice();
+              const held = new Set(listIds);
+              list.map(toEntry).forEach(([id, item]) => {
+                if (!held.has(id)) {
+                  held.add(id);
+                  listIds.push(id);
+                }
+                next.set(id, item);
+              });
+              return { data: next, listIds };
+            }),
+          // Instances only query lists hold are not added to the main list
           setInstance: (instance: Models[K]) =>
             set((state) => {
-              const id = String((instance as Record<string, unknown>)[mapKey]);
+              const [id] = toEntry(instance);
               const next = new Map(state.data || []);
               const isNew = !next.has(id);
               next.set(id, instance);
               return {
                 data: next,
+                ...isNew ? { listIds: [...state.listIds || [], id] } : {},
                 ...state.pagination && isNew
                   ? { pagination: { ...state.pagination, count: state.pagination.count + 1 } }
                   : {},
@@ -157,27 +361,114 @@ export function createStoreRegistry<Models extends Record<string, any>>() {
             }),
           updateInstance: (instance: Models[K]) =>
             set((state) => {
-              if (!state.data) return {};
-              const id = String((instance as Record<string, unknown>)[mapKey]);
-              const next = new Map(state.data);
-              const existing = next.get(id);
-              next.set(id, existing ? { ...existing, ...instance } : instance as Models[K]);
-              return { data: next };
+              const [id] = toEntry(instance);
+              const existing = state.data?.get(id);
+              if (!existing && !state.listIds) return {};
+              const next = new Map(state.data || []);
+              next.set(id, existing ? { ...existing, ...instance } : instance);
+              return {
+                data: next,
+                ...existing ? {} : { listIds: [...state.listIds!, id] },
+              };
             }),
+          // The id leaves the selection even when the store doesn't hold it
           deleteInstance: (instance: Models[K]) =>
             set((state) => {
-              if (!state.data) return {};
-              const id = String((instance as Record<string, unknown>)[mapKey]);
+              const [id] = toEntry(instance);
+              if (!state.data?.has(id)) {
+                return state.selectedIds.includes(id) ? { selectedIds: state.selectedIds.filter((i) => i !== id) } : {};
+              }
               const next = new Map(state.data);
               next.delete(id);
               return {
                 data: next,
-                ...state.pagination
-                  ? { pagination: { ...state.pagination, count: Math.max(0, state.pagination.count - 1) } }
-                  : {},
+                ...removeIds(state, new Set([id])),
                 selectedIds: state.selectedIds.filter((i) => i !== id),
               };
             }),
+          // Removes every instance with these ids in one update. All of the ids
+          // leave the selection, also the ones the store doesn't hold.
+          deleteMany: (ids: (string | number)[]) =>
+            set((state) => {
+              const deleted = new Set(ids.map(String));
+              const selectedIds = state.selectedIds.filter((i) => !deleted.has(i));
+              const selection = selectedIds.length !== state.selectedIds.length ? { selectedIds } : {};
+              const removed = new Set(Array.from(deleted).filter((id) => state.data?.has(id)));
+              if (!removed.size) return selection;
+              const next = new Map(state.data!);
+              removed.forEach((id) => next.delete(id));
+              return {
+                data: next,
+                ...removeIds(state, removed),
+                ...selection,
+              };
+            }),
+          snapshotInstances: (ids: string[]) => {
+            const { data, listIds, queries, selectedIds } = get();
+            return {
+              hadData: !!listIds,
+              entries: ids.map((id) => ({
+                id,
+                instance: data?.get(id),
+                index: listIds ? listIds.indexOf(id) : -1,
+                queryIndexes: Object.keys(queries).reduce((o, key) => {
+                  const index = queries[key].ids?.indexOf(id) ?? -1;
+                  return index === -1 ? o : { ...o, [key]: index };
+                }, {} as { [queryKey: string]: number }),
+                selected: selectedIds.includes(id),
+              })),
+            };
+          },
+          // Puts every snapshotted id back the way it was, at its original
+          // position in the main list and the query lists that held it.
+          // Pagination counts are corrected for instances that were added or
+          // removed since the snapshot was taken.
+          restoreInstances: (snapshot: InstanceSnapshot<Models[K]>) =>
+            set((state) => {
+              const data = new Map(state.data || []);
+              const missing = snapshot.entries.filter(({ id, instance }) => instance === undefined && data.has(id));
+              missing.forEach(({ id }) => data.delete(id));
+              const removal = removeIds(state, new Set(missing.map(({ id }) => id)));
+              const listIds = (removal.listIds || []).slice();
+              const queries = { ...removal.queries || state.queries };
+              let countDelta = 0;
+              snapshot.entries.forEach(({ id, instance, index, queryIndexes = {} }) => {
+                if (instance === undefined) return;
+                data.set(id, instance);
+                if (index !== -1 && !listIds.includes(id)) {
+                  listIds.splice(Math.min(index, listIds.length), 0, id);
+                  countDelta++;
+                }
+                Object.keys(queryIndexes).forEach((key) => {
+                  const query = queries[key];
+                  if (!query?.ids || query.ids.includes(id)) return;
+                  const ids = query.ids.slice();
+                  ids.splice(Math.min(queryIndexes[key], ids.length), 0, id);
+                  queries[key] = {
+                    ...query,
+                    ids,
+                    pagination: query.pagination ? { ...query.pagination, count: query.pagination.count + 1 } : null,
+                  };
+                });
+              });
+              const pagination = removal.pagination || state.pagination;
+              const reselect = snapshot.entries
+                .filter(({ id, selected }) => selected && !state.selectedIds.includes(id))
+                .map(({ id }) => id);
+              const hasList = snapshot.hadData || listIds.length > 0;
+              // `data` keeps the main list's order, with the other instances after it
+              const ordered = new Map(listIds.map((id): [string, Models[K]] => [id, data.get(id)!]));
+              data.forEach((instance, id) => ordered.set(id, instance));
+              return {
+                data: hasList || ordered.size ? ordered : null,
+                listIds: hasList ? listIds : null,
+                queries,
+                ...pagination && (countDelta || removal.pagination)
+                  ? { pagination: { ...pagination, count: Math.max(0, pagination.count + countDelta) } }
+                  : {},
+                ...reselect.length ? { selectedIds: [...state.selectedIds, ...reselect] } : {},
+              };
+            }),
           loadingState: {},
           setLoadingState: (key, value) =>
             set((state) => ({
@@ -191,6 +482,106 @@ export function createStoreRegistry<Models extends Record<string, any>>() {
               },
             })
           ),
+          instanceLoadingState: {},
+          setInstanceLoadingState: (key, id, value) =>
+            set((state) => {
+              const byId = state.instanceLoadingState[key] || {};
+              return {
+                instanceLoadingState: {
+                  ...state.instanceLoadingState,
+                  [key]: {
+                    ...byId,
+                    [id]: {
+                      ...defaultLoadingState,
+                      ...byId[id] ? { ...byId[id], sequence: byId[id].sequence + 1 } : {},
+                      ...value,
+                    },
+                  },
+                },
+              };
+            }),
+          listFetchedAt: null,
+          fetchedAt: {},
+          // Time of the last successful fetch of the list (id null) or an
+          // instance. A null time marks it as never fetched.
+          // A fetch also makes what it fetched valid again. The list fetch
+          // counts for every instance.
+          setFetchedAt: (id, time) =>
+            set((state) => {
+              if (id === null) {
+                return {
+                  listFetchedAt: time,
+                  ...time !== null ? { invalidated: { ...state.invalidated, list: false, ids: [] } } : {},
+                };
+              }
+              const { [id]: _previous, ...fetchedAt } = state.fetchedAt;
+              return {
+                fetchedAt: time === null ? fetchedAt : { ...fetchedAt, [id]: time },
+                ...time !== null && state.invalidated.ids.includes(id)
+                  ? { invalidated: { ...state.invalidated, ids: state.invalidated.ids.filter((i) => i !== id) } }
+                  : {},
+              };
+            }),
+          invalidated: { list: false, queries: [], ids: [] },
+          // Without an id: the list, every query and every instance
+          invalidate: (id) =>
+            set((state) => ({
+              invalidated: id != null
+                ? {
+                    ...state.invalidated,
+                    ids: state.invalidated.ids.includes(String(id))
+                      ? state.invalidated.ids
+                      : [...state.invalidated.ids, String(id)],
+                  }
+                : {
+                    list: true,
+                    queries: Object.keys(state.queries),
+                    ids: Array.from(state.data?.keys() || []),
+                  },
+            })),
+          queries: {},
+          setQuery: (queryKey, { loadingState, ...update }) =>
+            set((state) => {
+              const query = state.queries[queryKey] || createListQuery(validated.pagination);
+              return {
+                ...update.fetchedAt != null && state.invalidated.queries.includes(queryKey)
+                  ? {
+                      invalidated: {
+                        ...state.invalidated,
+                        queries: state.invalidated.queries.filter((key) => key !== queryKey),
+                      },
+                    }
+                  : {},
+                queries: {
+                  ...state.queries,
+                  [queryKey]: {
+                    ...query,
+                    ...update,
+                    loadingState: loadingState
+                      ? { ...query.loadingState, sequence: query.loadingState.sequence + 1, ...loadingState }
+                      : query.loadingState,
+                  },
+                },
+              };
+            }),
+          // Upserts the instances into `data` and sets their ids as the query's,
+          // without touching the main list, its pagination or the selection.
+          // With `append`, ids not in the query yet are added after the others.
+          setQueryList: (queryKey, list, append = false) =>
+            set((state) => {
+              const query = state.queries[queryKey] || createListQuery(validated.pagination);
+              const entries = list.map(toEntry);
+              const previous = append ? query.ids || [] : [];
+              const ids = Array.from(new Set([...previous, ...entries.map(([id]) => id)]));
+              const queries = { ...state.queries, [queryKey]: { ...query, ids } };
+              const data = new Map(state.data || []);
+              entries.forEach(([id, item]) => data.set(id, item));
+              // Instances that no list holds any more are let go
+              (query.ids || []).forEach((id) => {
+                if (!state.listIds?.includes(id) && !isQueried(queries, id)) data.delete(id);
+              });
+              return { data, queries };
+            }),
           state: rawConfig.state,
           patchState: (subState: Partial<C['state']>) => set(
             (state) => ({
@@ -210,37 +601,94 @@ export function createStoreRegistry<Models extends Record<string, any>>() {
             })),
           selectedIds: [] as string[],
           setSelectedIds: (ids: string[]) => set({ selectedIds: ids }),
+          filters: validated.filters ? validated.filters.initial : {},
+          setFilter: (name, value) =>
+            set((state) => state.filters[name] === value
+              ? {}
+              : { filters: { ...state.filters, [name]: value }, ...firstPage(state) }
+            ),
+          clearFilters: () =>
+            set((state) => ({ filters: validated.filters ? validated.filters.initial : {}, ...firstPage(state) })),
+          ordering: validated.ordering,
+          setOrdering: (ordering) =>
+            set((state) => {
+              const next = parseOrdering(ordering);
+              const current = state.ordering;
+              return next?.field === current?.field && next?.direction === current?.direction
+                ? {}
+                : { ordering: next, ...firstPage(state) };
+            }),
         }));
 
+      if (validated.sync === 'broadcast') {
+        setupSync(zustandStore, key);
+      }
+
       const s = zustandStore.getState();
       const store = Object.assign(
         zustandStore,
         {
-          key, config: validated, rawConfig: rawConfig,
+          key, config: validated, rawConfig: rawConfig, registry,
           setList: s.setList,
           patchList: s.patchList,
           updateList: s.updateList,
+          mergeList: s.mergeList,
           setInstance: s.setInstance,
           updateInstance: s.updateInstance,
           deleteInstance: s.deleteInstance,
+          deleteMany: s.deleteMany,
+          snapshotInstances: s.snapshotInstances,
+          restoreInstances: s.restoreInstances,
           setPagination: s.setPagination,
           setSelectedIds: s.setSelectedIds,
           patchState: s.patchState,
+          setFilter: s.setFilter,
+          clearFilters: s.clearFilters,
+          setOrdering: s.setOrdering,
         },
       ) as unknown as CrudStore<Models[K], K, C, typeof validated>;
 
+      if (validated.persist) {
+        setupPersistence(zustandStore, key, validated.persist);
+      }
+
+      if (validated.filters?.refetch) {
+        setupFilterRefetch(store);
+      }
+
+      if (pendingSnapshots[key]) {
+        hydrateStore(zustandStore, pendingSnapshots[key]);
+        const { [key]: _hydrated, ...rest } = pendingSnapshots;
+        pendingSnapshots = rest;
+      }
+
       storeRegistry[key] = store;
     }
 
     return storeRegistry[key] as CrudStore<Models[K], K, C, V>;
   }
-  return getOrCreateStore as (
-    <
-      K extends Extract<keyof Models, string>,
-      C extends Config<K, Models[K]>
-    >(
-      key: K,
-      config: C
-    ) => CrudStore<Models[K], K, C, ValidatedConfig<K, Models[K], C>>
-  );
+
+  const registry = Object.assign(getOrCreateStore, {
+    options,
+    invalidate: (key: string, id?: string | number | null) => {
+      (storeRegistry[key] as AnyCrudStore | undefined)?.getState().invalidate(id);
+    },
+    getStore: (key: string) => storeRegistry[key] as AnyCrudStore | undefined,
+    dehydrate: () => Object.entries(storeRegistry).reduce(
+      (o, [key, store]) => ({ ...o, [key]: dehydrateStore(store as AnyCrudStore) }),
+      {} as DehydratedRegistry
+    ),
+    hydrate: (snapshot: DehydratedRegistry) => {
+      Object.entries(snapshot).forEach(([key, storeSnapshot]) => {
+        const store = storeRegistry[key] as AnyCrudStore | undefined;
+        if (store) {
+          hydrateStore(store, storeSnapshot);
+        } else {
+          pendingSnapshots = { ...pendingSnapshots, [key]: storeSnapshot };
+        }
+      });
+    },
+  }) as StoreRegistry<Models>;
+
+  return registry;
 };
\ No newline at end of file
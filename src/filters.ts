@@ -0,0 +1,42 @@
+import { getAction } from "./useActions";
+import { getPendingRequests } from "./concurrency";
+import type { CrudStore, CrudState } from "./createStoreRegistry";
+import type { Config, ValidatedConfig } from "./config";
+
+// getList params for the current filters and ordering, null without either
+export function getFilterParams<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>
+): Record<string, any> | null {
+  const { filters: filtersConfig } = store.config;
+  if (!filtersConfig) return null;
+  const { filters, ordering } = store.getState() as CrudState<T, any>;
+  return filtersConfig.prepareParams(filters, ordering);
+}
+
+// Fetches the list again whenever the filters or the ordering change. A fetch
+// for the previous filters is replaced, whatever the action's concurrency, so
+// its response can't win over the new one.
+export function setupFilterRefetch<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>
+) {
+  if (!('getList' in store.config.actions)) return;
+  const getList = getAction(store, 'getList');
+  store.subscribe((state, previous) => {
+    if (state.filters === previous.filters && state.ordering === previous.ordering) return;
+    const running = getPendingRequests(store, 'getList').slice();
+    running.forEach((request) => request.abort());
+    const promise = getList();
+    // Callers of the aborted fetch get the new list, as with 'replace'
+    running.forEach((request) => { request.replacedBy = promise; });
+    // Failures end up in the loading state
+    promise.catch(() => undefined);
+  });
+}
@@ -0,0 +1,104 @@
+import { fetchTransport } from "./transport";
+import type { Transport, TransportResponse } from "./transport";
+
+export type GraphQLVariablesContext = {
+  // The action's data after its `prepare`
+  data: any;
+  args: any;
+  params: any;
+};
+
+export type GraphQLOperation = {
+  // Query or mutation document
+  query: string;
+  operationName?: string;
+  // Default: the params for getList, the data for other actions
+  variables?: (context: GraphQLVariablesContext) => Record<string, any>;
+  // Where the result is in the response's `data`: a dot path such as
+  // 'users.edges' or a function. Default: the only field of `data`.
+  path?: string | ((data: any) => any);
+};
+
+export type GraphQLTransportOptions = {
+  // Endpoint the operations are posted to; the store's routes are not used
+  url: string;
+  // Operation per action name: get, getList, create, update, delete, a bulk or a custom action
+  operations: { [action: string]: GraphQLOperation };
+  // Sends the HTTP requests (default: fetchTransport())
+  transport?: Transport;
+};
+
+export type GraphQLErrorEntry = {
+  message: string;
+  path?: (string | number)[];
+  extensions?: { [key: string]: any };
+};
+
+// Thrown when a response has `errors`, even when it has data as well
+export class GraphQLError extends Error {
+  errors: GraphQLErrorEntry[];
+  response: TransportResponse;
+
+  constructor(errors: GraphQLErrorEntry[], response: TransportResponse) {
+    super(errors.map((error) => error.message).join('; '));
+    // Restore the prototype chain, which is lost when compiling to ES5
+    Object.setPrototypeOf(this, GraphQLError.prototype);
+    this.name = 'GraphQLError';
+    this.errors = errors;
+    this.response = response;
+  }
+}
+
+// Thrown for an action the transport has no operation for. Not retried, since
+// sending it again can't succeed.
+export class GraphQLOperationError extends Error {
+  action: string | undefined;
+
+  constructor(action: string | undefined) {
+    super(`No GraphQL operation for action "${action}"`);
+    Object.setPrototypeOf(this, GraphQLOperationError.prototype);
+    this.name = 'GraphQLOperationError';
+    this.action = action;
+  }
+}
+
+export const getPath = (data: any, path: GraphQLOperation['path']) => {
+  if (typeof path === 'function') return path(data);
+  if (path) return path.split('.').reduce((value, key) => value?.[key], data);
+  const keys = data && typeof data === 'object' ? Object.keys(data) : [];
+  return keys.length === 1 ? data[keys[0]] : data;
+};
+
+// Sends every action of a store as a GraphQL operation and resolves with the
+// result at the operation's path, so it is written to the store like the
+// response of a REST endpoint
+export const graphqlTransport = ({
+  url,
+  operations,
+  transport = fetchTransport(),
+}: GraphQLTransportOptions): Transport => ({
+  request: async ({ action, args, method, url: _route, params, data, ...options }) => {
+    const operation = action !== undefined ? operations[action] : undefined;
+    if (!operation) throw new GraphQLOperationError(action);
+    const variables = operation.variables
+      ? operation.variables({ data, args, params })
+      : action === 'getList' ? params : data;
+    const response = await transport.request({
+      ...options,
+      method: 'post',
+      url,
+      data: {
+        query: operation.query,
+        ...operation.operationName ? { operationName: operation.operationName } : {},
+        variables: variables ?? {},
+      },
+    }).catch((error) => {
+      // Servers may send errors with an error status as well
+      const errors = error?.response?.data?.errors;
+      throw errors?.length ? new GraphQLError(errors, error.response) : error;
+    });
+    const body = response.data;
+    if (body?.errors?.length) throw new GraphQLError(body.errors, response);
+    return { ...response, data: getPath(body?.data, operation.path) };
+  },
+});
@@ -0,0 +1,68 @@
+import { defaultLoadingState } from "./loadingState";
+import type { CrudState, ListQuery } from "./createStoreRegistry";
+import type { Pagination } from "./config";
+
+// A query list without its loading state
+export type DehydratedQuery = Omit<ListQuery, 'loadingState'>;
+
+// JSON-safe snapshot of one store. `data` is a list of entries so the Map
+// and its key order survive serialization. Without `listIds`, every instance
+// in `data` is in the main list.
+export type DehydratedStore<T = any, S = any> = {
+  data: [string, T][] | null;
+  listIds?: string[] | null;
+  pagination: Pagination | null;
+  state: S;
+  listFetchedAt: number | null;
+  fetchedAt: { [id: string]: number };
+  queries?: { [queryKey: string]: DehydratedQuery };
+};
+
+// Snapshots of every store in a registry, by store key
+export type DehydratedRegistry = {
+  [key: string]: DehydratedStore;
+};
+
+type HydratableStore<T> = {
+  getState: () => CrudState<T, any>;
+  setState: (partial: Partial<CrudState<T, any>>) => void;
+};
+
+export function dehydrateStore<T>(store: HydratableStore<T>): DehydratedStore<T> {
+  const { data, listIds, pagination, state, listFetchedAt, fetchedAt, queries } = store.getState();
+  return {
+    data: data ? Array.from(data.entries()) : null,
+    listIds,
+    pagination,
+    state,
+    listFetchedAt,
+    fetchedAt,
+    queries: Object.keys(queries).reduce((o, queryKey) => {
+      const { loadingState: _loadingState, ...query } = queries[queryKey];
+      return { ...o, [queryKey]: query };
+    }, {} as { [queryKey: string]: DehydratedQuery }),
+  };
+}
+
+// Seeds the store with a snapshot. Selection and loading state are left as
+// they are.
+export function hydrateStore<T>(store: HydratableStore<T>, snapshot: DehydratedStore<T>) {
+  const current = store.getState();
+  const data = snapshot.data ? new Map(snapshot.data) : null;
+  store.setState({
+    data,
+    listIds: snapshot.listIds !== undefined ? snapshot.listIds : data && Array.from(data.keys()),
+    ...current.pagination && snapshot.pagination ? { pagination: snapshot.pagination } : {},
+    ...snapshot.state ? { state: { ...current.state, ...snapshot.state } } : {},
+    listFetchedAt: snapshot.listFetchedAt ?? null,
+    fetchedAt: snapshot.fetchedAt || {},
+    ...snapshot.queries
+      ? {
+          queries: Object.keys(snapshot.queries).reduce((o, queryKey) => ({
+            ...o,
+            [queryKey]: { ...snapshot.queries![queryKey], loadingState: defaultLoadingState },
+          }), {} as { [queryKey: string]: ListQuery }),
+        }
+      : {},
+  });
+}
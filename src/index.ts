@@ -1,6 +1,19 @@
 export * from './config';
+export * from './transport';
+export * from './graphql';
+export * from './jsonapi';
 export * from './createStoreRegistry';
 export * from './loadingState';
+export * from './persist';
+export * from './normalize';
+export * from './sync';
+export * from './hydration';
+export * from './queries';
+export * from './filters';
+export * from './polling';
+export * from './retry';
+export * from './refetchEvents';
+export * from './bulk';
 export * from './useList';
 export * from './useRecord';
 export * from './useGet';
@@ -8,5 +21,9 @@ export * from './useGetList';
 export * from './useActions';
 export * from './usePagination';
 export * from './useCrudState';
+export * from './useFilters';
+export * from './useQuery';
 export * from './useSelect';
+export * from './useSelectionActions';
+export * from './useRelated';
 export * from './useCrud';
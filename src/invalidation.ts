@@ -0,0 +1,26 @@
+import type { StoreRegistry } from "./createStoreRegistry";
+import type { Invalidation } from "./config";
+
+// Marks the stores (or their instances) listed in an action's `invalidates`
+// as stale after it succeeded, so the hooks showing them fetch again
+export function runInvalidations(
+  registry: StoreRegistry<any>,
+  invalidates: Invalidation[] | undefined,
+  data: any,
+  responseData: any,
+) {
+  invalidates?.forEach((invalidation) => {
+    if (typeof invalidation === 'string') {
+      registry.invalidate(invalidation);
+      return;
+    }
+    if (!invalidation.id) {
+      registry.invalidate(invalidation.key);
+      return;
+    }
+    const ids = invalidation.id(data, responseData);
+    (Array.isArray(ids) ? ids : [ids])
+      .filter((id) => id != null)
+      .forEach((id) => registry.invalidate(invalidation.key, id));
+  });
+}
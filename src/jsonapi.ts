@@ -0,0 +1,162 @@
+import type { AnyCrudStore, CrudStore, StoreRegistry } from "./createStoreRegistry";
+import type { Config, ValidatedConfig, Pagination } from "./config";
+import type { RequestOptions } from "./transport";
+
+export type JsonApiResourceIdentifier = { type: string; id: string };
+
+export type JsonApiRelationship = {
+  data?: JsonApiResourceIdentifier | JsonApiResourceIdentifier[] | null;
+  links?: { [name: string]: any };
+  meta?: { [key: string]: any };
+};
+
+export type JsonApiResource = {
+  type: string;
+  id?: string;
+  attributes?: { [field: string]: any };
+  relationships?: { [field: string]: JsonApiRelationship };
+  links?: { [name: string]: any };
+  meta?: { [key: string]: any };
+};
+
+export type JsonApiDocument = {
+  data?: JsonApiResource | JsonApiResource[] | null;
+  included?: JsonApiResource[];
+  meta?: { [key: string]: any };
+  links?: { [name: string]: any };
+};
+
+export type JsonApiConfig = {
+  // Resource type of the store's instances (default: the store key)
+  type?: string;
+  // Fields sent as relationships instead of attributes, with the resource
+  // type of the ids they hold
+  relationships?: { [field: string]: string };
+  // Registry store of each resource type in `included` (default: the store
+  // with the type as its key)
+  stores?: { [type: string]: string };
+};
+
+export const JSON_API_MEDIA_TYPE = 'application/vnd.api+json';
+
+export const isJsonApiDocument = (body: any): body is JsonApiDocument =>
+  !!body && typeof body === 'object' && !Array.isArray(body) && 'data' in body;
+
+// Attributes and relationships become fields of a plain instance, next to the
+// id under the store's `id` field. Relationships hold the ids they link to.
+export const deserializeResource = (resource: JsonApiResource, idKey: string = 'id') => {
+  const instance: { [field: string]: any } = { ...resource.attributes };
+  Object.keys(resource.relationships || {}).forEach((field) => {
+    const { data } = resource.relationships![field];
+    // Relationships with only links are left out
+    if (data === undefined) return;
+    instance[field] = Array.isArray(data) ? data.map((item) => item.id) : data?.id ?? null;
+  });
+  if (resource.id !== undefined) instance[idKey] = resource.id;
+  return instance;
+};
+
+// A list of instances for collections, an instance or null for single
+// resources. Other bodies are returned as they are.
+export const deserializeDocument = (body: any, idKey: string = 'id') => {
+  if (!isJsonApiDocument(body)) return body;
+  const { data } = body;
+  if (Array.isArray(data)) return data.map((resource) => deserializeResource(resource, idKey));
+  return data ? deserializeResource(data, idKey) : null;
+};
+
+// The document `create` and `update` send for an instance
+export const serializeResource = (
+  instance: { [field: string]: any },
+  { type, idKey = 'id', relationships = {} }: { type: string; idKey?: string; relationships?: JsonApiConfig['relationships'] },
+): { data: JsonApiResource } => {
+  const attributes: { [field: string]: any } = {};
+  const related: { [field: string]: JsonApiRelationship } = {};
+  Object.keys(instance).forEach((field) => {
+    const value = instance[field];
+    if (field === idKey) return;
+    const relatedType = relationships[field];
+    if (!relatedType) {
+      attributes[field] = value;
+      return;
+    }
+    const identify = (id: any) => ({ type: relatedType, id: String(id) });
+    related[field] = { data: Array.isArray(value) ? value.map(identify) : value == null ? null : identify(value) };
+  });
+  return {
+    data: {
+      type,
+      ...instance[idKey] != null ? { id: String(instance[idKey]) } : {},
+      attributes,
+      ...Object.keys(related).length ? { relationships: related } : {},
+    },
+  };
+};
+
+// The `page[cursor]`, `page[after]` or `page[before]` param of a link. Null
+// when it has none, e.g. with `page[offset]` links, which offset pagination
+// doesn't need.
+export const getLinkCursor = (link: any): string | null => {
+  const href = typeof link === 'string' ? link : link?.href;
+  if (!href) return null;
+  const match = /[?&]page(?:\[|%5B)(?:cursor|after|before)(?:\]|%5D)=([^&#]*)/i.exec(href);
+  return match ? decodeURIComponent(match[1].replace(/\+/g, ' ')) : null;
+};
+
+// `meta.total` (or `meta.count`) is the count; the `next` and `prev` links
+// hold the cursors of the neighbouring pages
+export const getJsonApiPagination = (body: any): Partial<Pagination> => {
+  if (!isJsonApiDocument(body)) return {};
+  const count = body.meta?.total ?? body.meta?.count;
+  return {
+    ...typeof count === 'number' ? { count } : {},
+    ...body.links
+      ? { nextCursor: getLinkCursor(body.links.next), prevCursor: getLinkCursor(body.links.prev) }
+      : {},
+  };
+};
+
+// Writes the resources in `included` to the registry stores of their types,
+// with one `mergeList` per store, so their pagination count stays as it is.
+// Types without a store are skipped.
+export function storeIncluded(
+  registry: StoreRegistry<any>,
+  body: any,
+  stores: JsonApiConfig['stores'] = {},
+) {
+  if (!isJsonApiDocument(body) || !body.included?.length) return;
+  const byKey = new Map<string, JsonApiResource[]>();
+  body.included.forEach((resource) => {
+    const key = stores[resource.type] ?? resource.type;
+    byKey.set(key, [...byKey.get(key) || [], resource]);
+  });
+  byKey.forEach((resources, key) => {
+    const target = registry.getStore(key) as AnyCrudStore | undefined;
+    if (!target) return;
+    target.getState().mergeList(resources.map((resource) => deserializeResource(resource, target.config.id)));
+  });
+}
+
+// The caller's headers win over the media type headers
+export const withJsonApiHeaders = (requestOptions: RequestOptions | undefined, hasBody: boolean): RequestOptions => ({
+  ...requestOptions,
+  headers: {
+    Accept: JSON_API_MEDIA_TYPE,
+    ...hasBody ? { 'Content-Type': JSON_API_MEDIA_TYPE } : {},
+    ...requestOptions?.headers,
+  },
+});
+
+// Serializes what the action's own `prepare` returns, for create and update
+// of a store with `format: 'jsonapi'`
+export function getJsonApiPrepare<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>, prepare?: any) {
+  const { jsonApi, id: idKey } = store.config;
+  return (data: any, context: any) => serializeResource(
+    typeof prepare === 'function' ? prepare(data, context) : data,
+    { type: jsonApi.type ?? store.key, idKey, relationships: jsonApi.relationships },
+  );
+}
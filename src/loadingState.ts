@@ -1,5 +1,6 @@
+import { useMemo } from "react";
 import type { CrudStore } from "./createStoreRegistry";
-import type { Config, ValidatedConfig } from "./config"
+import type { Config, ValidatedConfig, Prettify } from "./config"
 
 export type LoadingStateValue = {
   isLoading: boolean;
@@ -7,6 +8,10 @@ export type LoadingStateValue = {
   response: any | null;
   id: string | number | null | undefined;
   sequence: number;
+  // Retries of the last call so far, and whether it is waiting to retry or
+  // retrying now
+  retryCount: number;
+  isRetrying: boolean;
 };
 
 export const defaultLoadingState: LoadingStateValue = {
@@ -15,6 +20,8 @@ export const defaultLoadingState: LoadingStateValue = {
   response: undefined,
   id: undefined,
   sequence: 0,
+  retryCount: 0,
+  isRetrying: false,
 };
 
 // Function to use within callbacks
@@ -79,6 +86,8 @@ export function initiateAction<
       error: null,
       response: null,
       id: null,
+      retryCount: 0,
+      isRetrying: false,
       ...loadingState || {},
     }
   );
@@ -103,6 +112,7 @@ export function finishAction<
       error: null,
       id: id ?? null,
       response,
+      isRetrying: false,
     }
   );
 }
@@ -124,6 +134,75 @@ export function actionError<
       isLoading: false,
       error,
       response: null,
+      isRetrying: false,
     }
   );
-}
\ No newline at end of file
+}
+
+// Loading state of a single instance, keyed by its detailKey value
+export function getInstanceLoadingState<
+  T,
+  K extends string,
+  C extends Config<K, T>,
+  V extends ValidatedConfig<K, T, C>
+>(
+  store: CrudStore<T, K, C, V>,
+  action: string,
+  id: string | number,
+) {
+  const state = store.getState();
+  return {
+    ...defaultLoadingState,
+    ...state.instanceLoadingState[action]?.[String(id)] || {}
+  } as LoadingStateValue;
+}
+
+export function setInstanceLoadingState<
+  T,
+  K extends string,
+  C extends Config<K, T>,
+  V extends ValidatedConfig<K, T, C>
+>(
+  store: CrudStore<T, K, C, V>,
+  action: string,
+  id: string | number,
+  loadingState: Partial<LoadingStateValue>,
+) {
+  const state = store.getState();
+  state.setInstanceLoadingState(action, String(id), loadingState);
+}
+
+type InstanceActionKeys<C> = C extends { actions: infer A }
+  ? Extract<keyof A, 'get' | 'update' | 'delete'>
+  : 'get' | 'update' | 'delete';
+
+export type InstanceLoadingStates<C> = Prettify<
+  { [A in InstanceActionKeys<C>]: LoadingStateValue }
+  & (C extends { customActions: infer CA } ? { [A in keyof CA]: LoadingStateValue } : {})
+>;
+
+// Hook — loading state of every detail and custom action for one instance
+export function useInstanceLoadingState<
+  T,
+  K extends string,
+  C extends Config<K, T>,
+  V extends ValidatedConfig<K, T, C>
+>(
+  store: CrudStore<T, K, C, V>,
+  id: string | number | null | undefined,
+): InstanceLoadingStates<C> {
+  const instanceLoadingState = store((s) => s.instanceLoadingState);
+  const stringId = id != null ? String(id) : null;
+  return useMemo(() => {
+    const actions = [
+      ...(['get', 'update', 'delete'] as const).filter((action) => action in store.config.actions),
+      ...Object.keys(store.config.customActions ?? {}),
+    ];
+    return actions.reduce((acc, action) => {
+      acc[action] = stringId != null
+        ? instanceLoadingState[action]?.[stringId] || defaultLoadingState
+        : defaultLoadingState;
+      return acc;
+    }, {} as { [action: string]: LoadingStateValue }) as InstanceLoadingStates<C>;
+  }, [instanceLoadingState, stringId]);
+}
@@ -0,0 +1,58 @@
+import type { AnyCrudStore, CrudStore, StoreRegistry } from "./createStoreRegistry";
+import type { Config, ValidatedConfig, NormalizeSchema } from "./config";
+
+// Entities extracted per target store key
+type Extracted = Map<string, any[]>;
+
+const normalizeInstance = (
+  registry: StoreRegistry<any>,
+  instance: any,
+  schema: NormalizeSchema,
+  extracted: Extracted,
+): any => {
+  if (!instance || typeof instance !== 'object') return instance;
+  let result = instance;
+  Object.entries(schema).forEach(([field, entity]) => {
+    const value = instance[field];
+    if (value == null || typeof value !== 'object') return;
+    const { key, replaceWithId = false, normalize } = typeof entity === 'string'
+      ? { key: entity } as Exclude<typeof entity, string>
+      : entity;
+    // Entities for a store that was not created are left embedded
+    const target = registry.getStore(key) as AnyCrudStore | undefined;
+    if (!target) return;
+    const targetSchema: NormalizeSchema | null = normalize ?? target.config.normalize;
+
+    const extract = (item: any) => {
+      // Already an id
+      if (!item || typeof item !== 'object') return item;
+      const normalized = targetSchema ? normalizeInstance(registry, item, targetSchema, extracted) : item;
+      extracted.set(key, [...extracted.get(key) || [], normalized]);
+      return replaceWithId ? normalized[target.config.id] : normalized;
+    };
+    if (result === instance) result = { ...instance };
+    result[field] = Array.isArray(value) ? value.map(extract) : extract(value);
+  });
+  return result;
+};
+
+// Moves the embedded entities described by `config.normalize` into their
+// target stores with `mergeList` and returns the instances as they should
+// be stored.
+export function normalizeInstances<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  instances: T[]
+): T[] {
+  const schema: NormalizeSchema | null = store.config.normalize;
+  if (!schema) return instances;
+  const extracted: Extracted = new Map();
+  const result = instances.map((instance) => normalizeInstance(store.registry, instance, schema, extracted));
+  extracted.forEach((list, key) => {
+    (store.registry.getStore(key) as AnyCrudStore).getState().mergeList(list);
+  });
+  return result;
+}
@@ -0,0 +1,222 @@
+import type { CrudStore, CrudState } from "./createStoreRegistry";
+import type { Config, ValidatedConfig, Pagination } from "./config";
+
+// Storage adapter — sync (localStorage) or async (IndexedDB) are both fine
+export type PersistStorage = {
+  getItem: (name: string) => string | null | Promise<string | null>;
+  setItem: (name: string, value: string) => void | Promise<void>;
+  removeItem: (name: string) => void | Promise<void>;
+};
+
+export type PersistStorageName = 'localStorage' | 'sessionStorage' | 'indexedDB' | 'memory';
+
+// The part of the store that is persisted
+export type PersistedState<T, S = any> = {
+  data: Map<string, T> | null;
+  pagination: Pagination | null;
+  state: S;
+  selectedIds: string[];
+};
+
+export type PersistConfig = {
+  storage?: PersistStorageName | PersistStorage;
+  // Storage key (default: `zustand-crud-registry:<store key>`)
+  name?: string;
+  version?: number;
+  // Upgrades state persisted with an older version. Without it, state from
+  // another version is discarded.
+  migrate?: (persisted: PersistedState<any>, version: number) => PersistedState<any>;
+};
+
+// JSON shape in storage. `data` is a list of entries so the Map and its key
+// order survive the round trip.
+type SerializedState = {
+  version: number;
+  state: Omit<PersistedState<any>, 'data'> & { data: [string, any][] | null };
+};
+
+export const serializeState = (state: PersistedState<any>, version: number): string =>
+  JSON.stringify({
+    version,
+    state: {
+      data: state.data ? Array.from(state.data.entries()) : null,
+      pagination: state.pagination,
+      state: state.state,
+      selectedIds: state.selectedIds,
+    },
+  } as SerializedState);
+
+export const deserializeState = (value: string): { version: number; state: PersistedState<any> } => {
+  const { version, state } = JSON.parse(value) as SerializedState;
+  return {
+    version,
+    state: { ...state, data: state.data ? new Map(state.data) : null },
+  };
+};
+
+// ── Storage adapters ───────────────────────────────────────────────
+
+// Falls back to a no-op when the storage is unavailable (SSR, private mode)
+export const createWebStorage = (getStorage: () => Storage): PersistStorage => {
+  const storage = () => {
+    try {
+      return getStorage();
+    } catch {
+      return null;
+    }
+  };
+  return {
+    getItem: (name) => storage()?.getItem(name) ?? null,
+    setItem: (name, value) => storage()?.setItem(name, value),
+    removeItem: (name) => storage()?.removeItem(name),
+  };
+};
+
+export const createMemoryStorage = (): PersistStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (name) => items.get(name) ?? null,
+    setItem: (name, value) => { items.set(name, value); },
+    removeItem: (name) => { items.delete(name); },
+  };
+};
+
+export const createIndexedDBStorage = (
+  dbName: string = 'zustand-crud-registry',
+  storeName: string = 'stores',
+): PersistStorage => {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => db || (db = new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+  const run = <R>(mode: IDBTransactionMode, operation: (objectStore: IDBObjectStore) => IDBRequest) =>
+    open().then((database) => new Promise<R>((resolve, reject) => {
+      const request = operation(database.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+  return {
+    getItem: (name) => run<string | undefined>('readonly', (s) => s.get(name)).then((v) => v ?? null),
+    setItem: (name, value) => run<void>('readwrite', (s) => s.put(value, name)),
+    removeItem: (name) => run<void>('readwrite', (s) => s.delete(name)),
+  };
+};
+
+// Shared so every registry using 'memory' sees the same persisted stores
+const memoryStorage = createMemoryStorage();
+
+export const getPersistStorage = (storage: PersistConfig['storage'] = 'localStorage'): PersistStorage => {
+  switch (storage) {
+    case 'localStorage': return createWebStorage(() => window.localStorage);
+    case 'sessionStorage': return createWebStorage(() => window.sessionStorage);
+    case 'indexedDB': return createIndexedDBStorage();
+    case 'memory': return memoryStorage;
+    default: return storage;
+  }
+};
+
+export const getPersistName = (key: string, persist: PersistConfig) =>
+  persist.name ?? `zustand-crud-registry:${key}`;
+
+// ── Store wiring ───────────────────────────────────────────────────
+
+// The main list's instances in order. Query lists are not persisted, they are
+// fetched again.
+const getListData = <T>({ data, listIds }: CrudState<T, any>) => data && listIds
+  ? new Map(listIds.filter((id) => data.has(id)).map((id): [string, T] => [id, data.get(id)!]))
+  : null;
+
+// Rehydrates the store from storage and saves the persisted part on every
+// change. With an async adapter, state received before rehydration finished
+// (e.g. from a fetch on mount) wins over the persisted state.
+export function setupPersistence<T>(
+  store: {
+    getState: () => CrudState<T, any>;
+    setState: (partial: Partial<CrudState<T, any>>) => void;
+    subscribe: (listener: (state: CrudState<T, any>, previous: CrudState<T, any>) => void) => () => void;
+  },
+  key: string,
+  persist: PersistConfig,
+) {
+  const storage = getPersistStorage(persist.storage);
+  const name = getPersistName(key, persist);
+  const version = persist.version ?? 0;
+  let hydrated = false;
+
+  const hydrate = (value: string | null) => {
+    hydrated = true;
+    if (value === null) return;
+    let persisted: { version: number; state: PersistedState<T> };
+    try {
+      persisted = deserializeState(value);
+    } catch (error) {
+      console.error(error);
+      return;
+    }
+    let { state } = persisted;
+    if (persisted.version !== version) {
+      if (!persist.migrate) return;
+      state = persist.migrate(state, persisted.version);
+    }
+    store.setState({
+      data: state.data,
+      listIds: state.data ? Array.from(state.data.keys()) : null,
+      ...store.getState().pagination && state.pagination ? { pagination: state.pagination } : {},
+      ...state.state ? { state: { ...store.getState().state, ...state.state } } : {},
+      selectedIds: state.selectedIds || [],
+    });
+  };
+
+  const value = storage.getItem(name);
+  if (value !== null && typeof value !== 'string') {
+    value.then(
+      (v) => {
+        if (store.getState().data === null) {
+          hydrate(v);
+        } else {
+          hydrated = true;
+        }
+      },
+      (error) => {
+        hydrated = true;
+        console.error(error);
+      },
+    );
+  } else {
+    hydrate(value);
+  }
+
+  store.subscribe((state, previous) => {
+    if (!hydrated) return;
+    if (
+      state.data === previous.data
+      && state.listIds === previous.listIds
+      && state.pagination === previous.pagination
+      && state.state === previous.state
+      && state.selectedIds === previous.selectedIds
+    ) return;
+    // A full storage must not break the store
+    try {
+      Promise.resolve(storage.setItem(name, serializeState({ ...state, data: getListData(state) }, version)))
+        .catch(console.error);
+    } catch (error) {
+      console.error(error);
+    }
+  });
+}
+
+// Removes the persisted state of a store, e.g. on logout
+export function clearPersistedStore<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>
+) {
+  const { persist } = store.config;
+  if (!persist) return;
+  return getPersistStorage(persist.storage).removeItem(getPersistName(store.key, persist));
+}
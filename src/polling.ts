@@ -0,0 +1,157 @@
+import { useEffect, useRef } from "react";
+import { getAction } from "./useActions";
+import { getLoadingState, getInstanceLoadingState } from "./loadingState";
+import { getListQuery, getQueryKey } from "./queries";
+import type { CrudStore } from "./createStoreRegistry";
+import type { Config, ValidatedConfig, PollingConfig } from "./config";
+
+// The interval doubles after every failed poll, up to 2^5 times
+const MAX_BACKOFF_STEPS = 5;
+
+type Poller = {
+  // Requested interval per subscriber; the shortest one wins
+  intervals: Map<symbol, number>;
+  // Fetches and resolves to whether the fetch succeeded
+  run: () => Promise<boolean>;
+  errors: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  // Waiting for the document to become visible again
+  paused: boolean;
+  onVisibilityChange: () => void;
+};
+
+// One poller per store and request, shared by every subscriber
+const pollers = new WeakMap<object, Map<string, Poller>>();
+
+const isHidden = () => typeof document !== 'undefined' && document.visibilityState === 'hidden';
+
+export const getPollDelay = (interval: number, errors: number) =>
+  interval * 2 ** Math.min(errors, MAX_BACKOFF_STEPS);
+
+// Action-level refetchInterval, used when the hook doesn't pass one
+export function getRefetchInterval<T, K extends string, C extends Config<K, T>>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  action: 'get' | 'getList',
+): number | null {
+  const actionConfig = (store.config.actions as { [action: string]: PollingConfig | undefined })[action];
+  return actionConfig?.refetchInterval ?? null;
+}
+
+// Polling key and fetch of a list, or of the query list with these params
+export function getListPoll<T, K extends string, C extends Config<K, T>>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  params?: any,
+) {
+  const queryKey = params !== undefined ? getQueryKey(params) : null;
+  return {
+    key: queryKey !== null ? `getList:${queryKey}` : 'getList',
+    run: async () => {
+      const getList = getAction(store, 'getList');
+      await (queryKey !== null ? getList({ params, queryKey }) : getList()).catch(() => undefined);
+      const { error } = queryKey !== null
+        ? getListQuery(store, queryKey).loadingState
+        : getLoadingState(store, 'getList');
+      return !error;
+    },
+  };
+}
+
+// Polling key and fetch of a single instance by its detailKey value
+export function getInstancePoll<T, K extends string, C extends Config<K, T>>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  id: string | number,
+) {
+  return {
+    key: `get:${id}`,
+    run: async () => {
+      await getAction(store, 'get')({ [store.config.detailKey]: id } as any).catch(() => undefined);
+      return !getInstanceLoadingState(store, 'get', id).error;
+    },
+  };
+}
+
+const schedule = (poller: Poller) => {
+  if (poller.timer) clearTimeout(poller.timer);
+  const interval = Math.min(...Array.from(poller.intervals.values()));
+  poller.timer = setTimeout(() => tick(poller), getPollDelay(interval, poller.errors));
+};
+
+const tick = async (poller: Poller) => {
+  poller.timer = null;
+  if (isHidden()) {
+    poller.paused = true;
+    return;
+  }
+  const ok = await poller.run();
+  poller.errors = ok ? 0 : poller.errors + 1;
+  // Unless every subscriber unmounted in the meantime
+  if (poller.intervals.size && !poller.timer) schedule(poller);
+};
+
+// Calls `run` every `interval` milliseconds until the returned function is
+// called. Subscribers with the same store and key share a single timer.
+export function subscribePolling(
+  store: object,
+  key: string,
+  interval: number,
+  run: () => Promise<boolean>,
+): () => void {
+  let byKey = pollers.get(store);
+  if (!byKey) {
+    byKey = new Map();
+    pollers.set(store, byKey);
+  }
+  let poller = byKey.get(key);
+  if (!poller) {
+    const created: Poller = {
+      intervals: new Map(),
+      run,
+      errors: 0,
+      timer: null,
+      paused: false,
+      onVisibilityChange: () => {
+        if (!created.paused || isHidden()) return;
+        created.paused = false;
+        tick(created);
+      },
+    };
+    poller = created;
+    byKey.set(key, poller);
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', poller.onVisibilityChange);
+    }
+  }
+
+  const subscriber = Symbol();
+  const shortest = poller.intervals.size ? Math.min(...Array.from(poller.intervals.values())) : Infinity;
+  poller.intervals.set(subscriber, interval);
+  // Restart the timer when this subscriber polls more often
+  if (interval < shortest && !poller.paused) schedule(poller);
+
+  const current = poller;
+  return () => {
+    current.intervals.delete(subscriber);
+    if (current.intervals.size) return;
+    if (current.timer) clearTimeout(current.timer);
+    current.timer = null;
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', current.onVisibilityChange);
+    }
+    if (byKey!.get(key) === current) byKey!.delete(key);
+  };
+}
+
+// Polls with `run` while the component is mounted and `interval` is set
+export function usePolling(
+  store: object,
+  key: string | null,
+  interval: number | null | undefined,
+  run: () => Promise<boolean>,
+) {
+  const latestRun = useRef(run);
+  latestRun.current = run;
+  useEffect(() => {
+    if (key === null || !interval) return;
+    return subscribePolling(store, key, interval, () => latestRun.current());
+  }, [store, key, interval]);
+}
@@ -0,0 +1,49 @@
+import { defaultLoadingState } from "./loadingState";
+import { defaultPagination } from "./config";
+import type { CrudStore, ListQuery } from "./createStoreRegistry";
+import type { Config, ValidatedConfig, PaginationConfig } from "./config";
+
+// JSON with object keys sorted, so params with the same values share a list
+export const stableStringify = (value: any): string => {
+  if (value instanceof Date) return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+export const getQueryKey = (params: any) => stableStringify(params ?? {});
+
+// How a query looks before it is first fetched
+export const createListQuery = (pagination: PaginationConfig | null): ListQuery => ({
+  ids: null,
+  params: undefined,
+  pagination: pagination
+    ? { ...defaultPagination, limit: pagination.limit, offset: pagination.offset }
+    : null,
+  loadingState: defaultLoadingState,
+  fetchedAt: null,
+});
+
+export function getListQuery<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  queryKey: string,
+): ListQuery {
+  return store.getState().queries[queryKey] || createListQuery(store.config.pagination);
+}
+
+// Instances of a list (the main list or a query) in order. Ids of deleted
+// instances are skipped.
+export const getQueryInstances = <T>(data: Map<string, T> | null, ids: string[] | null): T[] | null =>
+  ids
+    ? ids.map((id) => data?.get(id)).filter((instance): instance is T => instance !== undefined)
+    : null;
@@ -0,0 +1,90 @@
+import { useEffect, useRef } from "react";
+import type { CrudStore } from "./createStoreRegistry";
+import type { Config, ValidatedConfig } from "./config";
+
+export type RefetchEventOptions = {
+  refetchOnFocus?: boolean;
+  refetchOnReconnect?: boolean;
+};
+
+type MountedFetch = {
+  key: string;
+  run: () => Promise<unknown>;
+  refetchOnFocus: boolean;
+  refetchOnReconnect: boolean;
+};
+
+// Fetches of the mounted hooks, per store
+const mounted = new Map<object, Map<symbol, MountedFetch>>();
+
+const hasWindow = () => typeof window !== 'undefined' && typeof document !== 'undefined';
+
+// Runs every fetch that asked for this event once per store and key, however
+// many hooks depend on it
+const refetch = (event: 'refetchOnFocus' | 'refetchOnReconnect') => {
+  mounted.forEach((fetches) => {
+    const byKey = new Map<string, MountedFetch>();
+    fetches.forEach((fetch) => {
+      if (fetch[event] && !byKey.has(fetch.key)) byKey.set(fetch.key, fetch);
+    });
+    byKey.forEach((fetch) => fetch.run());
+  });
+};
+
+const onVisibilityChange = () => {
+  if (document.visibilityState === 'visible') refetch('refetchOnFocus');
+};
+const onOnline = () => refetch('refetchOnReconnect');
+
+// Hook level, store level, registry level, off by default
+export function getRefetchEventOptions<T, K extends string, C extends Config<K, T>>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  options?: RefetchEventOptions,
+) {
+  const registryOptions = store.registry?.options || {};
+  return {
+    refetchOnFocus: options?.refetchOnFocus ?? store.config.refetchOnFocus ?? registryOptions.refetchOnFocus ?? false,
+    refetchOnReconnect: options?.refetchOnReconnect ?? store.config.refetchOnReconnect ?? registryOptions.refetchOnReconnect ?? false,
+  };
+}
+
+// Keys of the fetches that mounted hooks of this store depend on
+export const getMountedFetchKeys = (store: object): string[] =>
+  Array.from(new Set(Array.from(mounted.get(store)?.values() || []).map((fetch) => fetch.key)));
+
+// Registers a fetch the mounted component depends on, to run again when the
+// page becomes visible or the browser comes back online
+export function useRefetchEvents(
+  store: object,
+  key: string | null,
+  options: Required<RefetchEventOptions>,
+  run: () => Promise<unknown>,
+) {
+  const latestRun = useRef(run);
+  latestRun.current = run;
+  const { refetchOnFocus, refetchOnReconnect } = options;
+  useEffect(() => {
+    if (key === null || (!refetchOnFocus && !refetchOnReconnect) || !hasWindow()) return;
+    if (!mounted.size) {
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      window.addEventListener('online', onOnline);
+    }
+    let fetches = mounted.get(store);
+    if (!fetches) {
+      fetches = new Map();
+      mounted.set(store, fetches);
+    }
+    const id = Symbol();
+    fetches.set(id, { key, run: () => latestRun.current(), refetchOnFocus, refetchOnReconnect });
+
+    return () => {
+      const current = mounted.get(store);
+      current?.delete(id);
+      if (current && !current.size) mounted.delete(store);
+      if (!mounted.size) {
+        document.removeEventListener('visibilitychange', onVisibilityChange);
+        window.removeEventListener('online', onOnline);
+      }
+    };
+  }, [store, key, refetchOnFocus, refetchOnReconnect]);
+}
@@ -0,0 +1,68 @@
+import type { RetryConfig, RetryOptions } from "./config";
+
+export type ResolvedRetryOptions = Required<RetryOptions>;
+
+// 1s, 2s, 4s, ... up to 30s
+export const defaultRetryBackoff = (attempt: number) => Math.min(1000 * 2 ** (attempt - 1), 30_000);
+
+// Network errors, timeouts, rate limits and server errors. Requests that were
+// cancelled, actions without a GraphQL operation and other 4xx responses fail
+// right away.
+export const isRetryableError = (error: any) => {
+  if (error?.code === 'ERR_CANCELED' || error?.name === 'AbortError' || error?.name === 'CanceledError') return false;
+  if (error?.name === 'GraphQLOperationError') return false;
+  const status = error?.response?.status;
+  if (status == null) return true;
+  return status === 408 || status === 429 || status >= 500;
+};
+
+// The call's retry option overrides the action's. A number is the maximum
+// number of attempts, including the first.
+export function getRetryOptions(
+  actionRetry: RetryConfig | undefined,
+  callerRetry: RetryConfig | undefined,
+): ResolvedRetryOptions | null {
+  const retry = callerRetry ?? actionRetry;
+  if (!retry) return null;
+  const options = typeof retry === 'number' ? { attempts: retry } : retry;
+  return {
+    attempts: options.attempts ?? 3,
+    backoff: options.backoff ?? defaultRetryBackoff,
+    retryIf: options.retryIf ?? isRetryableError,
+  };
+}
+
+// Resolves after `ms`, or as soon as the signal aborts
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve) => {
+  if (signal.aborted) return resolve();
+  const done = () => {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  signal.addEventListener('abort', done);
+});
+
+// Runs `request` until it succeeds, the error isn't retryable or the attempts
+// run out, then rethrows the last error. `onRetry` is called before waiting
+// for each retry.
+export async function withRetry<R>(
+  request: () => Promise<R>,
+  options: ResolvedRetryOptions | null,
+  signal: AbortSignal,
+  onRetry: (retryCount: number) => unknown,
+): Promise<R> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (!options || attempt >= options.attempts || signal.aborted || !options.retryIf(error, attempt)) {
+        throw error;
+      }
+      await onRetry(attempt);
+      await wait(options.backoff(attempt, error), signal);
+      if (signal.aborted) throw error;
+    }
+  }
+}
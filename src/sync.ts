@@ -0,0 +1,87 @@
+import type { CrudState } from "./createStoreRegistry";
+
+// Store mutations that are published to the other tabs. restoreInstances is
+// included so optimistic rollbacks reach the tabs that saw the mutation, and
+// the query mutations so query lists stay the same too.
+export const syncedMutations = [
+  'setList',
+  'patchList',
+  'updateList',
+  'mergeList',
+  'setInstance',
+  'updateInstance',
+  'deleteInstance',
+  'deleteMany',
+  'restoreInstances',
+  'setQueryList',
+  'setQuery',
+] as const;
+
+export type SyncedMutation = typeof syncedMutations[number];
+
+export type SyncMessage = {
+  mutation: SyncedMutation;
+  args: any[];
+};
+
+export const getSyncChannelName = (key: string) => `zustand-crud-registry:${key}`;
+
+// Publishes the store's data mutations on a BroadcastChannel and applies the
+// ones received from other tabs without publishing them again. Selection and
+// loading state are not shared. Must run before the store methods are copied
+// onto the store object.
+export function setupSync<T>(
+  store: {
+    getState: () => CrudState<T, any>;
+    setState: (partial: Partial<CrudState<T, any>>) => void;
+  },
+  key: string,
+) {
+  // Not available during SSR or in older browsers
+  if (typeof BroadcastChannel === 'undefined') return;
+
+  const channel = new BroadcastChannel(getSyncChannelName(key));
+  const state = store.getState();
+  const originals = syncedMutations.reduce(
+    (o, mutation) => ({ ...o, [mutation]: state[mutation] as (...args: any[]) => void }),
+    {} as Record<SyncedMutation, (...args: any[]) => void>
+  );
+
+  store.setState(syncedMutations.reduce(
+    (o, mutation) => ({
+      ...o,
+      [mutation]: (...args: any[]) => {
+        originals[mutation](...args);
+        const [payload, ...rest] = args;
+        // Loading state stays local to each tab
+        if (mutation === 'setQuery') {
+          const { loadingState: _loadingState, ...update } = rest[0];
+          if (!Object.keys(update).length) return;
+          rest[0] = update;
+        }
+        channel.postMessage({
+          mutation,
+          // Which instances are selected is up to each tab
+          args: [
+            mutation === 'restoreInstances'
+              ? { ...payload, entries: payload.entries.map((entry: any) => ({ ...entry, selected: false })) }
+              : payload,
+            ...rest,
+          ],
+        } as SyncMessage);
+      },
+    }),
+    {} as Partial<CrudState<T, any>>
+  ));
+
+  channel.onmessage = ({ data: message }: MessageEvent<SyncMessage>) => {
+    if (!message || !originals[message.mutation]) return;
+    const { selectedIds } = store.getState();
+    originals[message.mutation](...message.args);
+    // setList clears the selection, keep what is still there
+    if (message.mutation === 'setList') {
+      const { data } = store.getState();
+      store.setState({ selectedIds: selectedIds.filter((id) => data?.has(id)) });
+    }
+  };
+}
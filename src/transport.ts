@@ -0,0 +1,142 @@
+import type { AxiosInstance } from "axios";
+
+export type Method =
+  | 'get' | 'GET'
+  | 'delete' | 'DELETE'
+  | 'head' | 'HEAD'
+  | 'options' | 'OPTIONS'
+  | 'post' | 'POST'
+  | 'put' | 'PUT'
+  | 'patch' | 'PATCH'
+  | 'purge' | 'PURGE'
+  | 'link' | 'LINK'
+  | 'unlink' | 'UNLINK';
+
+export type TransportRequest = {
+  method: Method;
+  url: string;
+  params?: any;
+  data?: any;
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+  // Not sent: the action making the request (get, getList, create, update,
+  // delete, a bulk or a custom action) and its args, for transports that map
+  // actions to operations (see graphqlTransport)
+  action?: string;
+  args?: any;
+  // Other options are passed on as is, e.g. axios' `timeout`
+  [option: string]: any;
+};
+
+export type TransportResponse<D = any> = {
+  status: number;
+  data: D;
+  headers: Record<string, string>;
+};
+
+// Sends the requests of a store's actions. Rejects with an error that has a
+// `response` for error statuses, the way axios does, and rejects with the
+// signal's error when aborted.
+export type Transport = {
+  request: (request: TransportRequest) => Promise<TransportResponse>;
+};
+
+// Per-call request options, merged into the request of an action
+export type RequestOptions = Partial<TransportRequest>;
+
+export class TransportError extends Error {
+  response: TransportResponse;
+
+  constructor(response: TransportResponse) {
+    super(`Request failed with status code ${response.status}`);
+    // Restore the prototype chain, which is lost when compiling to ES5
+    Object.setPrototypeOf(this, TransportError.prototype);
+    this.name = 'TransportError';
+    this.response = response;
+  }
+}
+
+export const axiosTransport = (axios: AxiosInstance): Transport => ({
+  request: async ({ action, args, ...request }) => {
+    const response = await axios(request);
+    return {
+      status: response.status,
+      data: response.data,
+      headers: response.headers as Record<string, string>,
+    };
+  },
+});
+
+export type FetchTransportOptions = {
+  // Prefixed to relative urls
+  baseURL?: string;
+  // Sent with every request; a function is called per request (e.g. for tokens)
+  headers?: Record<string, string> | (() => Record<string, string>);
+  credentials?: RequestCredentials;
+  // Defaults to the global fetch
+  fetch?: typeof fetch;
+};
+
+// Arrays are repeated (`?id=1&id=2`), null and undefined are left out
+export const serializeParams = (params: any): string => {
+  if (!params) return '';
+  const search = new URLSearchParams();
+  Object.keys(params).forEach((key) => {
+    const value = params[key];
+    (Array.isArray(value) ? value : [value])
+      .filter((v) => v != null)
+      .forEach((v) => search.append(key, v instanceof Date ? v.toISOString() : String(v)));
+  });
+  const query = search.toString();
+  return query ? `?${query}` : '';
+};
+
+const joinURL = (baseURL: string | undefined, url: string) =>
+  !baseURL || /^[a-z][a-z\d+\-.]*:\/\//i.test(url)
+    ? url
+    : `${baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+
+// Bodies fetch sends as they are; everything else is sent as JSON
+const isRawBody = (data: any) =>
+  typeof data === 'string'
+  || (typeof FormData !== 'undefined' && data instanceof FormData)
+  || (typeof Blob !== 'undefined' && data instanceof Blob)
+  || (typeof URLSearchParams !== 'undefined' && data instanceof URLSearchParams)
+  || (typeof ArrayBuffer !== 'undefined' && data instanceof ArrayBuffer);
+
+// JSON responses are parsed, empty ones are null and others are text
+const parseBody = (text: string, contentType: string | null) => {
+  if (!text) return null;
+  if (contentType?.includes('json')) return JSON.parse(text);
+  return text;
+};
+
+export const fetchTransport = (options: FetchTransportOptions = {}): Transport => ({
+  request: async ({ method, url, params, data, signal, headers }) => {
+    const fetchImpl = options.fetch ?? fetch;
+    const defaultHeaders = typeof options.headers === 'function' ? options.headers() : options.headers;
+    // fetch rejects GET and HEAD requests with a body
+    const body = /^(get|head)$/i.test(method) ? undefined : data;
+    const json = body !== undefined && !isRawBody(body);
+    const response = await fetchImpl(joinURL(options.baseURL, url) + serializeParams(params), {
+      method: method.toUpperCase(),
+      headers: {
+        ...json ? { 'Content-Type': 'application/json' } : {},
+        ...defaultHeaders,
+        ...headers,
+      },
+      body: json ? JSON.stringify(body) : body,
+      signal,
+      credentials: options.credentials,
+    });
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => { responseHeaders[key] = value; });
+    const result: TransportResponse = {
+      status: response.status,
+      data: parseBody(await response.text(), response.headers.get('content-type')),
+      headers: responseHeaders,
+    };
+    if (!response.ok) throw new TransportError(result);
+    return result;
+  },
+});
@@ -1,10 +1,41 @@
 import { useMemo } from "react";
-import { defaultLoadingState, initiateAction, finishAction, actionError, getLoadingState } from "./loadingState";
-
-import type { AxiosRequestConfig, Method } from 'axios'
+import {
+  defaultLoadingState,
+  initiateAction,
+  finishAction,
+  actionError,
+  getLoadingState,
+  setLoadingState,
+  setInstanceLoadingState,
+} from "./loadingState";
+import {
+  getPendingRequests,
+  getPendingKeys,
+  releaseRequest,
+  linkSignal,
+  isOutdated,
+  markWritten,
+  type PendingRequest,
+} from "./concurrency";
+import { normalizeInstances } from "./normalize";
+import { getListQuery } from "./queries";
+import { getFilterParams } from "./filters";
+import { getRetryOptions, withRetry } from "./retry";
+import { runInvalidations } from "./invalidation";
+import {
+  deserializeDocument,
+  getJsonApiPagination,
+  getJsonApiPrepare,
+  storeIncluded,
+  withJsonApiHeaders,
+} from "./jsonapi";
+import { getBulkAction, bulkActionKeys, type BulkActionKey, type BulkFuncProps, type BulkResult } from "./bulk";
+
+import type { Method, RequestOptions } from './transport'
 import type { LoadingStateValue } from "./loadingState";
-import type { CrudStore, CrudState } from "./createStoreRegistry";
-import type { Config, ValidatedConfig, ValidConfig, AsyncFunction, Route, Prettify, CallbackContext, ListCallbackContext } from "./config"
+import type { CrudStore, CrudState, InstanceSnapshot } from "./createStoreRegistry";
+import { isFirstPage } from "./config";
+import type { Config, ValidatedConfig, ValidConfig, AsyncFunction, OptimisticConfig, RetryConfig, Route, Prettify, CallbackContext, ListCallbackContext } from "./config"
 
 export const callIfFunc = (func: any, ...params: any[]) => {
   if (typeof func === 'function') {
@@ -12,13 +43,40 @@ export const callIfFunc = (func: any, ...params: any[]) => {
   }
 }
 
+// Stored in loadingState.error when an optimistic mutation was rolled back.
+// The original error is kept as `cause` and is what onError receives.
+export class OptimisticRollbackError extends Error {
+  cause: any;
+  ids: string[];
+
+  constructor(cause: any, ids: string[]) {
+    super(cause?.message ?? String(cause));
+    // Restore the prototype chain, which is lost when compiling to ES5
+    Object.setPrototypeOf(this, OptimisticRollbackError.prototype);
+    this.name = 'OptimisticRollbackError';
+    this.cause = cause;
+    this.ids = ids;
+  }
+}
+
+let optimisticSequence = 0;
+
 // Per-call props for detail/custom actions — callback receives context.data typed as D
 export type AsyncFuncProps<D = any> = {
   params?: any;
   callback?: (data: any, context: CallbackContext<D>) => void;
   onError?: (error: any) => void;
-  axiosConfig?: Partial<AxiosRequestConfig>;
+  // Merged into the request, e.g. { headers }
+  requestOptions?: RequestOptions;
+  // Deprecated alias of requestOptions
+  axiosConfig?: RequestOptions;
   args?: any;
+  // Overrides the action's `optimistic` setting (create, update and delete only)
+  optimistic?: boolean;
+  // Overrides the action's `retry` setting
+  retry?: RetryConfig;
+  // Aborts the request, unless other calls without a signal share it
+  signal?: AbortSignal;
 }
 
 // Per-call props for getList — callback context has no data field
@@ -26,21 +84,38 @@ export type ListAsyncFuncProps = {
   params?: any;
   callback?: (data: any, context: ListCallbackContext) => void;
   onError?: (error: any) => void;
-  axiosConfig?: Partial<AxiosRequestConfig>;
+  // Merged into the request, e.g. { headers }
+  requestOptions?: RequestOptions;
+  // Deprecated alias of requestOptions
+  axiosConfig?: RequestOptions;
   args?: any;
+  // Store the result as a separate list with this key (see getQueryKey)
+  // instead of replacing the store's data
+  queryKey?: string;
+  // Overrides the action's `retry` setting
+  retry?: RetryConfig;
+  // Aborts the request, unless other calls without a signal share it
+  signal?: AbortSignal;
 }
 
 export type onResponse<D = any> = { onResponse?: (data: any, context: CallbackContext<D>) => void };
 export type listOnResponse = { onResponse?: (data: any, context: ListCallbackContext) => void };
 
-export type ActionProps<D = any> = Prettify<onResponse<D> & LoadingStateValue>;
-export type ListActionProps = Prettify<listOnResponse & LoadingStateValue>;
+// Aborts every request of the action that is running or queued
+export type Abort = { abort: () => void };
+
+export type ActionProps<D = any> = Prettify<onResponse<D> & LoadingStateValue & Abort>;
+export type ListActionProps = Prettify<listOnResponse & LoadingStateValue & Abort>;
 
 export type InferActionData<A> =
   A extends { route: (data: infer D, ...args: any[]) => any } ? D
   : A extends { prepare: (data: infer D, ...args: any[]) => any } ? D
   : any;
 
+export type BulkActionFunction<T> = (
+  (items: Partial<T>[], args?: BulkFuncProps<T>) => Promise<BulkResult<T>>
+) & Prettify<{ onResponse?: (data: any, context: CallbackContext<Partial<T>[]>) => void } & LoadingStateValue & Abort>;
+
 export type CustomActionFunction<T> = ((data?: any, args?: AsyncFuncProps) => Promise<T | void>) & ActionProps
 
 export type ActionFunctions<T> = {
@@ -50,6 +125,9 @@ export type ActionFunctions<T> = {
   update: ((instance: Partial<T>, args?: AsyncFuncProps<Partial<T>>) => Promise<T | void>) & ActionProps<Partial<T>>;
   delete: ((instance: Partial<T>, args?: AsyncFuncProps<Partial<T>>) => Promise<void>) & ActionProps<Partial<T>>;
   custom: CustomActionFunction<T>;
+  bulkCreate: BulkActionFunction<T>;
+  bulkUpdate: BulkActionFunction<T>;
+  bulkDelete: BulkActionFunction<T>;
 };
 
 export type CustomActionFunctions<T, C extends ValidConfig<T>> = {
@@ -65,27 +143,36 @@ type ConditionalActionFunctions<
   [K in keyof C['actions'] & keyof ActionFunctions<T>]: ActionFunctions<T>[K];
 };
 
-type GetAxiosConfigProps = {
+type GetRequestProps = {
   method: Method;
   route: Route
   params: any
   data?: any
   original?: any
-  axiosConfig?: Partial<AxiosRequestConfig>
+  requestOptions?: RequestOptions
   args: any
   prepare?: any
+  signal?: AbortSignal
+  action: string
 }
-const getAxiosConfig = ({
+const getRequest = ({
     method,
     route,
     params,
     data,
     original,
-    axiosConfig,
+    requestOptions,
     args,
     prepare,
-  }: GetAxiosConfigProps) => ({
-    ...axiosConfig || {},
+    signal,
+    action,
+  }: GetRequestProps) => ({
+    ...requestOptions || {},
+    // The request's own signal, so aborting the action cancels it. A caller's
+    // signal is linked to it through the `signal` prop.
+    ...signal ? { signal } : {},
+    action,
+    args,
     method,
     url: typeof route === 'function' ? route(data, { args, params, original }) : route,
     params,
@@ -97,154 +184,471 @@ const getAxiosConfig = ({
 
 export type SetSubState<T, V extends ValidConfig<T>> = (obj: Partial<V['state']>) => void;
 
-export function useActions<
+// Creates a callable action bound to the store. Requests in flight are shared
+// per store, so concurrency applies across every component using the action.
+export function getAction<
   T,
   K extends string,
-  C extends Config<K, T>
+  C extends Config<K, T>,
+  A extends keyof ActionFunctions<T>
 >(
-  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  actionKey: A,
+  customAction?: keyof C['customActions'],
 ) {
-  const { axios, actions: configActions, customActions, pagination: paginationConfig } = store.config;
+  if (bulkActionKeys.includes(actionKey as BulkActionKey)) {
+    return getBulkAction(store, actionKey as BulkActionKey) as unknown as ActionFunctions<T>[A];
+  }
+  const { transport, actions: configActions, customActions, pagination: paginationConfig } = store.config;
+  const isJsonApi = store.config.format === 'jsonapi';
   // Internal full-state access — pagination/setPagination are conditional on
   // CrudStore but always exist on the underlying Zustand store
   const _getState = store.getState as () => CrudState<T, any>;
-  const loadingState = store((s) => s.loadingState);
+  const loadingStateKey = (actionKey === 'custom' && customAction ? customAction : actionKey) as string
+  const actionConfig = (
+    actionKey === 'custom' && customAction
+      ? customActions[customAction]
+      : (configActions as Record<string, AsyncFunction<T>>)[actionKey]
+  ) as AsyncFunction<T> & OptimisticConfig;
+
+  // Query-keyed lists run and load independently of each other
+  const getQueryKeyArg = (funcArgs: any[]): string | null =>
+    actionKey === 'getList' ? funcArgs[0]?.queryKey ?? null : null;
+  const getPendingKey = (queryKey: string | null) =>
+    queryKey === null ? loadingStateKey : `${loadingStateKey}:${queryKey}`;
+  // detailKey value of the instance a call acts on: null for lists, creates
+  // and custom actions called without one
+  const getInstanceId = (funcArgs: any[]): string | null => {
+    const id = actionKey === 'getList' || actionKey === 'create' ? undefined : funcArgs[0]?.[store.config.detailKey];
+    return id != null ? String(id) : null;
+  };
+
+  // Settles the loading state right away, so the action can be called again
+  // before the aborted request has rejected
+  const abortRequest = (request: PendingRequest, pending: PendingRequest[], queryKey: string | null) => {
+    if (request.controller.signal.aborted || !pending.includes(request)) return;
+    request.controller.abort();
+    releaseRequest(pending, request);
+    const loadingState = { isLoading: pending.length > 0, isRetrying: false };
+    if (queryKey !== null) {
+      _getState().setQuery(queryKey, { loadingState });
+    } else {
+      setLoadingState(store, loadingStateKey, loadingState);
+    }
+    if (request.instanceId !== null) {
+      setInstanceLoadingState(store, loadingStateKey, request.instanceId, {
+        isLoading: pending.some((r) => r.instanceId === request.instanceId),
+        isRetrying: false,
+      });
+    }
+  };
 
-  function getAction<T, K extends keyof ActionFunctions<T>, J extends keyof C['customActions'] | undefined>(
-    actionKey: K,
-    customAction?:J
-  ) {
-    const loadingStateKey = (actionKey === 'custom' && customAction ? customAction : actionKey) as string
-
-    const act = Object.assign(
-    async (...funcArgs: any[]) => {
-      const { isLoading } = getLoadingState(store, loadingStateKey);
-      if (isLoading) return;
-
-      const isListAction = actionKey === 'getList';
-      const data = isListAction ? undefined : funcArgs[0];
-      const {
-        params,
-        callback,
-        onError: callerOnError,
-        axiosConfig,
-        args,
-      } = funcArgs[actionKey === 'getList' ? 0 : 1] || {} as AsyncFuncProps;
-
-      const {
-        callback: actionCallback,
-        onError: actionOnError,
-        onResponse: configOnResponse,
-        method,
-        route,
-        prepare,
-      } = (
-        actionKey === 'custom' && customAction
-          ? customActions[customAction]
-          : (configActions as Record<string, AsyncFunction<T>>)[actionKey]
-       ) as AsyncFunction<T>;
-
-      const paginationState = _getState().pagination;
-      const paginationParams = actionKey === 'getList' && paginationConfig?.prepareParams && paginationState
-        ? paginationConfig.prepareParams(paginationState)
-        : null;
-
-      const mergedParams = paginationParams
-        ? { ...paginationParams, ...params }
-        : params;
-
-      const mergedAxiosConfig = getAxiosConfig({
-        ...actionKey !== 'getList' ? { data } : {},
-        method,
-        route,
-        params: mergedParams,
-        axiosConfig,
-        args,
-        prepare,
-        ...actionKey === 'update' && data != null
-          ? { original: (() => {
-              const mapData = _getState().data;
-              if (!mapData) return undefined;
-              const idValue = data[store.config.id];
-              return idValue != null ? mapData.get(String(idValue)) : undefined;
-            })() }
-          : {},
-      })
-
-      const id = data?.[store.config.detailKey]
-      await initiateAction(
-        store,
-        loadingStateKey,
-        {
-          ...(
-            actionKey === 'get'
-            || actionKey === 'update'
-            || actionKey === 'delete'
-            || (actionKey === 'custom' && typeof id !== 'undefined')
-          ) ? { id } : {},
+  const execute = async (request: PendingRequest, funcArgs: any[]) => {
+    const queryKey = getQueryKeyArg(funcArgs);
+    const pending = getPendingRequests(store, getPendingKey(queryKey));
+    const isListAction = actionKey === 'getList';
+    const data = isListAction ? undefined : funcArgs[0];
+    const {
+      params,
+      callback,
+      onError: callerOnError,
+      requestOptions,
+      axiosConfig,
+      args,
+      optimistic: callerOptimistic,
+      retry: callerRetry,
+    } = funcArgs[actionKey === 'getList' ? 0 : 1] || {} as AsyncFuncProps;
+
+    const {
+      callback: actionCallback,
+      onError: actionOnError,
+      onResponse: configOnResponse,
+      method,
+      route,
+      prepare,
+      optimistic: actionOptimistic,
+      retry: actionRetry,
+      invalidates,
+    } = actionConfig;
+
+    const paginationState = queryKey !== null
+      ? getListQuery(store, queryKey).pagination
+      : _getState().pagination;
+    const paginationParams = actionKey === 'getList' && paginationConfig?.prepareParams && paginationState
+      ? paginationConfig.prepareParams(paginationState)
+      : null;
+
+    // Filters and ordering apply to the main list, query lists have their own params
+    const filterParams = actionKey === 'getList' && queryKey === null ? getFilterParams(store) : null;
+
+    const mergedParams = paginationParams || filterParams
+      ? { ...paginationParams, ...filterParams, ...params }
+      : params;
+
+    const mergedOptions = axiosConfig || requestOptions ? { ...axiosConfig, ...requestOptions } : undefined;
+    const transportRequest = getRequest({
+      ...actionKey !== 'getList' ? { data } : {},
+      method,
+      route,
+      params: mergedParams,
+      requestOptions: isJsonApi ? withJsonApiHeaders(mergedOptions, !!data) : mergedOptions,
+      args,
+      prepare: isJsonApi && (actionKey === 'create' || actionKey === 'update')
+        ? getJsonApiPrepare(store, prepare)
+        : prepare,
+      signal: request.controller.signal,
+      action: loadingStateKey,
+      ...actionKey === 'update' && data != null
+        ? { original: (() => {
+            const mapData = _getState().data;
+            if (!mapData) return undefined;
+            const idValue = data[store.config.id];
+            return idValue != null ? mapData.get(String(idValue)) : undefined;
+          })() }
+        : {},
+    })
+
+    const id = data?.[store.config.detailKey]
+    const isInstanceAction = (
+      actionKey === 'get'
+      || actionKey === 'update'
+      || actionKey === 'delete'
+      || (actionKey === 'custom' && typeof id !== 'undefined')
+    );
+    // Aborted while queued
+    if (request.controller.signal.aborted) return request.replacedBy ?? undefined;
+    const initiated = queryKey !== null
+      ? _getState().setQuery(queryKey, {
+          params,
+          loadingState: { isLoading: true, error: null, response: null, id: null, retryCount: 0, isRetrying: false },
+        })
+      : initiateAction(
+          store,
+          loadingStateKey,
+          {
+            ...isInstanceAction ? { id } : {},
+          }
+        );
+    // Sequence of the loading state this request started at, read before
+    // another call can start
+    const startSequence = queryKey !== null
+      ? getListQuery(store, queryKey).loadingState.sequence
+      : getLoadingState(store, loadingStateKey).sequence;
+    await initiated;
+
+    // Per-instance loading state, next to the aggregate one above
+    const setSettledLoadingState = (value: Partial<LoadingStateValue>) => {
+      const loadingState = { ...value, isLoading: pending.some((r) => r !== request), isRetrying: false };
+      return queryKey !== null
+        ? _getState().setQuery(queryKey, { loadingState })
+        : setLoadingState(store, loadingStateKey, loadingState);
+    };
+    const settleInstance = (value: Partial<LoadingStateValue>) => {
+      if (request.instanceId === null) return;
+      setInstanceLoadingState(store, loadingStateKey, request.instanceId, {
+        ...value,
+        isRetrying: false,
+        isLoading: pending.some((r) => r !== request && r.instanceId === request.instanceId),
+      });
+    };
+    if (request.instanceId !== null) {
+      await setInstanceLoadingState(store, loadingStateKey, request.instanceId, {
+        isLoading: true,
+        error: null,
+        response: null,
+        id,
+        retryCount: 0,
+        isRetrying: false,
+      });
+    }
+    // Aborted, or replaced by a newer call whose result counts instead
+    const superseded = async () => {
+      releaseRequest(pending, request);
+      settleInstance({});
+      if (request.replacedBy) return request.replacedBy;
+      await setSettledLoadingState({});
+      return undefined;
+    };
+
+    // Optimistic mutation: write to the store now and keep a snapshot of
+    // what was there so it can be restored when the request fails
+    let snapshot: InstanceSnapshot<any> | null = null;
+    let optimisticId: string | null = null;
+    if (
+      (callerOptimistic ?? actionOptimistic)
+      && data != null
+      && (actionKey === 'create' || actionKey === 'update' || actionKey === 'delete')
+    ) {
+      const state = _getState();
+      const idValue = data[store.config.id];
+      if (actionKey === 'create') {
+        // New instances without an id are keyed by a temporary one
+        optimisticId = idValue != null ? String(idValue) : `optimistic-${++optimisticSequence}`;
+        snapshot = state.snapshotInstances([optimisticId]);
+        state.setInstance({ ...data, [store.config.id]: idValue ?? optimisticId });
+      } else if (idValue != null) {
+        optimisticId = String(idValue);
+        snapshot = state.snapshotInstances([optimisticId]);
+        if (actionKey === 'update') {
+          state.updateInstance(data);
+        } else {
+          state.deleteInstance(data);
         }
+      }
+    }
+    // Rolled back as soon as the request is aborted, so a call replacing it
+    // takes its snapshot of the data from before this one
+    let rolledBack = false;
+    const rollback = () => {
+      if (!snapshot || rolledBack) return;
+      rolledBack = true;
+      _getState().restoreInstances(snapshot);
+    };
+    if (snapshot) request.controller.signal.addEventListener('abort', rollback, { once: true });
+
+    // Other requests for this action that are still running or queued
+    const othersPending = () => pending.some((r) => r !== request);
+
+    try {
+      // Replaced before the request was sent
+      if (request.controller.signal.aborted) return superseded();
+      const response = await withRetry(
+        () => transport.request(transportRequest),
+        getRetryOptions(actionRetry, callerRetry),
+        request.controller.signal,
+        (retryCount) => {
+          const retrying = { retryCount, isRetrying: true };
+          if (request.instanceId !== null) {
+            setInstanceLoadingState(store, loadingStateKey, request.instanceId, retrying);
+          }
+          return queryKey !== null
+            ? _getState().setQuery(queryKey, { loadingState: retrying })
+            : setLoadingState(store, loadingStateKey, retrying);
+        },
       );
+      // Superseded by a 'replace' call: its result is the one that counts
+      if (request.controller.signal.aborted) return superseded();
+      request.controller.signal.removeEventListener('abort', rollback);
+      // JSON:API documents are written as plain instances
+      const rawData = response.data;
+      const body = isJsonApi ? deserializeDocument(rawData, store.config.id) : rawData;
+      let responseData = body;
+
+      // A read or update that started after this one has already written its
+      // response, which is newer than this one
+      const orderKey = `${getPendingKey(queryKey)}:${request.instanceId ?? ''}`;
+      if (actionKey === 'get' || actionKey === 'getList' || actionKey === 'update') {
+        if (isOutdated(store, orderKey, startSequence)) {
+          releaseRequest(pending, request);
+          settleInstance({});
+          await setSettledLoadingState({});
+          return undefined;
+        }
+        markWritten(store, orderKey, startSequence);
+      }
 
-      try {
-        const response = await axios(mergedAxiosConfig);
-        let responseData = response.data;
+      const state = _getState()
+      // Embedded entities move to their own stores before this one is written
+      const normalize = (instance: any) => normalizeInstances(store, [instance])[0];
+      // Pagination from the links and meta of JSON:API documents, merged with `prepare`
+      const preparePagination = isJsonApi
+        ? () => ({ ...getJsonApiPagination(rawData), ...paginationConfig?.prepare?.(rawData) })
+        : paginationConfig?.prepare && (() => paginationConfig.prepare!(rawData));
+      if (actionKey === 'get') {
+        await state.setInstance(normalize(body));
+
+      } else if (actionKey === 'getList') {
+        const extractList = paginationConfig?.extractList || ((d: any) => d.data);
+        const results = Array.isArray(body) ? body : extractList(body);
+        // In append mode every page after the first adds to the list. The
+        // count is the server's, not the number of instances loaded so far.
+        const append = paginationConfig?.mode === 'append'
+          && !!paginationState && !isFirstPage(paginationConfig, paginationState);
+        if (queryKey !== null) {
+          await state.setQueryList(queryKey, normalizeInstances(store, results), append);
+          if (paginationConfig && preparePagination) {
+            const { pagination } = getListQuery(store, queryKey);
+            await state.setQuery(queryKey, {
+              pagination: pagination && { ...pagination, ...preparePagination() },
+            });
+          }
+        } else {
+          if (append) {
+            await state.mergeList(normalizeInstances(store, results));
+          } else {
+            await state.setList(normalizeInstances(store, results));
+          }
+          if (paginationConfig && preparePagination) {
+            await state.setPagination(preparePagination());
+          }
+        }
+        responseData = results;
 
-        const state = _getState()
-        if (actionKey === 'get') {
-          await state.setInstance(response.data);
+      } else if (actionKey === 'create') {
+        // Swap the temporary instance for the one returned by the server
+        if (snapshot && data[store.config.id] == null) {
+          await state.restoreInstances(snapshot);
+        }
+        await state.setInstance(normalize(body));
 
-        } else if (actionKey === 'getList') {
-          const extractList = paginationConfig?.extractList || ((d: any) => d.data);
-          const results = Array.isArray(response.data) ? response.data : extractList(response.data);
-          await state.setList(results);
-          if (paginationConfig?.prepare) {
-            await state.setPagination(paginationConfig.prepare(response.data));
-          }
-          responseData = results;
+      } else if (actionKey === 'update') {
+        await state.updateInstance(normalize(body))
 
-        } else if (actionKey === 'create') {
-          await state.setInstance(response.data);
+      } else if (actionKey === 'delete' && !snapshot) {
+        await state.deleteInstance(data)
+      }
+      // Related resources sent along go to their own stores
+      if (isJsonApi) storeIncluded(store.registry, rawData, store.config.jsonApi.stores);
+
+      // Remember when the data was last received from the server
+      const fetchedAt = Date.now();
+      if (queryKey !== null) {
+        await state.setQuery(queryKey, { fetchedAt });
+      } else if (actionKey === 'getList') {
+        await state.setFetchedAt(null, fetchedAt);
+      } else if (
+        (actionKey === 'get' || actionKey === 'create' || actionKey === 'update')
+        && body?.[store.config.id] != null
+      ) {
+        await state.setFetchedAt(String(body[store.config.id]), fetchedAt);
+      }
 
-        } else if (actionKey === 'update') {
-          await state.updateInstance(response.data)
+      // Other stores that depend on this change fetch again
+      runInvalidations(store.registry, invalidates, data, responseData);
+
+      const context = isListAction
+        ? { args, params } as ListCallbackContext
+        : { data, args, params } as CallbackContext;
+      callIfFunc(configOnResponse, responseData, context);
+      callIfFunc(act.onResponse, responseData, context);
+      callIfFunc(actionCallback, responseData, context);
+      callIfFunc(callback, responseData, context);
+
+      releaseRequest(pending, request);
+      settleInstance({ error: null, response: responseData, id });
+      if (queryKey !== null) {
+        await state.setQuery(queryKey, {
+          loadingState: { isLoading: othersPending(), error: null, response: responseData, isRetrying: false },
+        });
+      } else if (othersPending()) {
+        await setLoadingState(store, loadingStateKey, { response: responseData, id: id ?? null, isRetrying: false });
+      } else {
+        await finishAction(store, loadingStateKey, responseData, id);
+      }
 
-        } else if (actionKey === 'delete') {
-          await state.deleteInstance(data)
+      return responseData;
+    } catch (error) {
+      if (request.controller.signal.aborted) return superseded();
+      if (!actionOnError && !callerOnError) {
+        console.error(error);
+      }
+      rollback();
+      const loadingError = snapshot ? new OptimisticRollbackError(error, [optimisticId as string]) : error;
+      releaseRequest(pending, request);
+      settleInstance({ error: loadingError, response: null });
+      if (queryKey !== null) {
+        await _getState().setQuery(queryKey, {
+          loadingState: { isLoading: othersPending(), error: loadingError, response: null, isRetrying: false },
+        });
+      } else {
+        await actionError(store, loadingStateKey, loadingError);
+        if (othersPending()) {
+          await setLoadingState(store, loadingStateKey, { isLoading: true });
         }
+      }
+      callIfFunc(actionOnError, error);
+      callIfFunc(callerOnError, error);
+      throw error;
+    }
+  };
 
-        const context = isListAction
-          ? { args, params } as ListCallbackContext
-          : { data, args, params } as CallbackContext;
-        callIfFunc(configOnResponse, responseData, context);
-        callIfFunc(act.onResponse, responseData, context);
-        callIfFunc(actionCallback, responseData, context);
-        callIfFunc(callback, responseData, context);
-
-        await finishAction(store, loadingStateKey, responseData, id);
+  const act = Object.assign(
+    (...funcArgs: any[]) => {
+      const { concurrency = 'drop' } = actionConfig;
+      const queryKey = getQueryKeyArg(funcArgs);
+      const pending = getPendingRequests(store, getPendingKey(queryKey));
+      const signal: AbortSignal | undefined = (funcArgs[actionKey === 'getList' ? 0 : 1] || {}).signal;
+      if (signal?.aborted) return Promise.resolve();
+
+      const instanceId = getInstanceId(funcArgs);
+
+      // Creates and custom calls without an instance send their own data, so
+      // they always run: sharing would resolve them with another call's result
+      if (concurrency === 'drop' && (actionKey === 'getList' || instanceId !== null)) {
+        // Share the result of the request that is already running for the
+        // same instance. Calls for other instances run next to it.
+        const running = pending.filter((r) => r.instanceId === instanceId).pop();
+        if (running) {
+          linkSignal(running, signal);
+          return running.promise;
+        }
+        const isLoading = queryKey !== null
+          ? getListQuery(store, queryKey).loadingState.isLoading
+          : instanceId === null && getLoadingState(store, loadingStateKey).isLoading;
+        if (isLoading) return Promise.resolve();
+      }
 
-        return responseData;
-      } catch (error) {
-        if (!actionOnError && !callerOnError) {
-          console.error(error);
+      const previous = pending.slice();
+      const request: PendingRequest = {
+        promise: Promise.resolve(),
+        controller: new AbortController(),
+        replacedBy: null,
+        instanceId,
+        signals: [],
+        abort: () => abortRequest(request, pending, queryKey),
+      };
+      request.promise = (async () => {
+        try {
+          if (concurrency === 'queue') {
+            await Promise.all(previous.map((r) => r.promise.catch(() => undefined)));
+          }
+          return await execute(request, funcArgs);
+        } finally {
+          releaseRequest(pending, request);
         }
-        await actionError(store, loadingStateKey, error);
-        callIfFunc(actionOnError, error);
-        callIfFunc(callerOnError, error);
+      })();
+      pending.push(request);
+      linkSignal(request, signal);
+
+      if (concurrency === 'replace') {
+        previous.forEach((r) => {
+          r.replacedBy = request.promise;
+          r.controller.abort();
+        });
       }
+      return request.promise;
     },
-    loadingState[loadingStateKey] || defaultLoadingState,
-  ) as ActionFunctions<T>[K]
+    getLoadingState(store, loadingStateKey),
+    {
+      abort: () => getPendingKeys(store, loadingStateKey).forEach((key) => {
+        getPendingRequests(store, key).slice().forEach((request) => request.abort());
+      }),
+    },
+  ) as ActionFunctions<T>[A]
   return act;
-};
+}
+
+export function useActions<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>
+) {
+  const { actions: configActions } = store.config;
+  const loadingState = store((s) => s.loadingState);
 
   type V = ValidatedConfig<K, T, C>;
 
   // Unconditional useMemo calls — condition is inside, not guarding the hook
-  const actionGet = useMemo(() => 'get' in configActions ? getAction<T, 'get', undefined>('get') : null, []);
-  const actionGetList = useMemo(() => 'getList' in configActions ? getAction<T, 'getList', undefined>('getList') : null, []);
-  const actionCreate = useMemo(() => 'create' in configActions ? getAction<T, 'create', undefined>('create') : null, []);
-  const actionUpdate = useMemo(() => 'update' in configActions ? getAction<T, 'update', undefined>('update') : null, []);
-  const actionDelete = useMemo(() => 'delete' in configActions ? getAction<T, 'delete', undefined>('delete') : null, []);
+  const actionGet = useMemo(() => 'get' in configActions ? getAction(store, 'get') : null, []);
+  const actionGetList = useMemo(() => 'getList' in configActions ? getAction(store, 'getList') : null, []);
+  const actionCreate = useMemo(() => 'create' in configActions ? getAction(store, 'create') : null, []);
+  const actionUpdate = useMemo(() => 'update' in configActions ? getAction(store, 'update') : null, []);
+  const actionDelete = useMemo(() => 'delete' in configActions ? getAction(store, 'delete') : null, []);
+  const actionBulkCreate = useMemo(() => 'bulkCreate' in configActions ? getAction(store, 'bulkCreate') : null, []);
+  const actionBulkUpdate = useMemo(() => 'bulkUpdate' in configActions ? getAction(store, 'bulkUpdate') : null, []);
+  const actionBulkDelete = useMemo(() => 'bulkDelete' in configActions ? getAction(store, 'bulkDelete') : null, []);
 
   const actions: Partial<ActionFunctions<T>> = {
     ...actionGet ? { get: actionGet } : {},
@@ -252,13 +656,16 @@ export function useActions<
     ...actionCreate ? { create: actionCreate } : {},
     ...actionUpdate ? { update: actionUpdate } : {},
     ...actionDelete ? { delete: actionDelete } : {},
+    ...actionBulkCreate ? { bulkCreate: actionBulkCreate } : {},
+    ...actionBulkUpdate ? { bulkUpdate: actionBulkUpdate } : {},
+    ...actionBulkDelete ? { bulkDelete: actionBulkDelete } : {},
   };
 
   // Single useMemo for all custom actions — no hooks inside loops
   const customActionConfig = useMemo(() => {
     const entries = Object.keys(store.config.customActions ?? {}) as (keyof C['customActions'])[];
     return entries.reduce((acc, action) => {
-      acc[action] = getAction<T, 'custom', typeof action>('custom', action);
+      acc[action] = getAction(store, 'custom', action) as CustomActionFunctions<T, V>[typeof action];
       return acc;
     }, {} as CustomActionFunctions<T, V>);
   }, []);
@@ -1,6 +1,11 @@
-import { useMemo, useEffect } from "react";
+import { useMemo, useEffect, useCallback } from "react";
 import { useActions } from "./useActions";
 import { useSelectBase } from "./useSelectBase";
+import { loadMore, hasMorePages } from "./usePagination";
+import { holdRequest } from "./concurrency";
+import { getQueryInstances } from "./queries";
+import { usePolling, getListPoll, getInstancePoll, getRefetchInterval } from "./polling";
+import { useRefetchEvents, getRefetchEventOptions, type RefetchEventOptions } from "./refetchEvents";
 
 import type { CrudStore } from "./createStoreRegistry";
 import type { Config, ValidatedConfig, ValidConfig, Pagination, Prettify } from "./config"
@@ -27,7 +32,12 @@ type RecordFields<T, C> = 'includeRecord' extends keyof C
   : {};
 
 type PaginationFields<C> = 'pagination' extends keyof C
-  ? { pagination: Pagination; setPagination: (partial: Partial<Pagination>) => void }
+  ? {
+      pagination: Pagination;
+      setPagination: (partial: Partial<Pagination>) => void;
+      loadMore: () => Promise<void>;
+      hasMore: boolean;
+    }
   : {};
 
 type StateFields<C, S> = 'state' extends keyof C
@@ -75,6 +85,14 @@ export type UseCrudReturn<Store> = (
     : never
 );
 
+// refetchOnFocus and refetchOnReconnect apply to the instance when an id is
+// passed. They only apply to the list when passed here.
+export type CrudOptions = RefetchEventOptions & {
+  // Milliseconds between fetches of the list (and the instance when an id is
+  // passed) while mounted, overrides the actions' refetchInterval
+  refetchInterval?: number;
+};
+
 export function useCrud<
   T,
   K extends string,
@@ -82,6 +100,7 @@ export function useCrud<
 >(
   store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
   id?: number | string | null,
+  options?: CrudOptions,
 ) {
   const detailKey = store.config.detailKey;
   const useDetailKeyScan = store.config.detailKey !== store.config.id;
@@ -91,10 +110,11 @@ export function useCrud<
 
   // Single data subscription — shared by list, record, and select derivations
   const data = store((s) => s.data);
+  const listIds = store((s) => s.listIds);
 
   const list = useMemo(
-    () => includeList && data ? Array.from(data.values()) : null,
-    [data]
+    () => includeList ? getQueryInstances(data, listIds) : null,
+    [data, listIds]
   );
   const sameKey = store.config.detailKey === store.config.id;
   const record = useMemo(() => {
@@ -132,23 +152,45 @@ export function useCrud<
   const actions = useActions(store);
   const actionGet = (actions as { get?: ActionFunctions<T>['get'] }).get;
 
-  // Auto-fetch instance on mount / id change when not in store.
+  const isInvalidated = store((s) => !!instance
+    && s.invalidated.ids.includes(String((instance as any)[store.config.id]))
+  );
+
+  // Auto-fetch instance on mount / id change when not in store, or when it
+  // was invalidated.
   useEffect(() => {
     if (stringId == null || !actionGet) return;
     const state = store.getState();
-    if (useDetailKeyScan) {
-      if (findByDetailKey(state.data, id)) return;
-    } else {
-      if (state.data?.get(stringId)) return;
-    }
-    if (state.loadingState['get']?.isLoading) return;
+    const existing = useDetailKeyScan ? findByDetailKey(state.data, id) : state.data?.get(stringId);
+    if (existing && !isInvalidated) return;
+    // Keep a fetch another caller started alive while mounted
+    if (state.loadingState['get']?.isLoading) return holdRequest(store, 'get', String(id));
     if (state.loadingState['get']?.error) return;
-    actionGet({ [detailKey]: id });
-  }, [stringId, actionGet, store, id, detailKey]);
+    // Aborted when unmounted or when the id changes, unless other callers
+    // still wait for it
+    const controller = new AbortController();
+    // Failures end up in the loading state
+    actionGet({ [detailKey]: id }, { signal: controller.signal }).catch(() => undefined);
+    return () => controller.abort();
+  }, [stringId, actionGet, store, id, detailKey, isInvalidated]);
+
+  // Polling and refetching, shared with other mounted hooks
+  const listPoll = getListPoll(store);
+  const listPollKey = 'getList' in store.config.actions ? listPoll.key : null;
+  const instancePollKey = id != null && actionGet ? getInstancePoll(store, id).key : null;
+  const instancePoll = () => getInstancePoll(store, id!).run();
+  usePolling(store, listPollKey, options?.refetchInterval ?? getRefetchInterval(store, 'getList'), listPoll.run);
+  usePolling(store, instancePollKey, options?.refetchInterval ?? getRefetchInterval(store, 'get'), instancePoll);
+  useRefetchEvents(store, listPollKey, {
+    refetchOnFocus: !!options?.refetchOnFocus,
+    refetchOnReconnect: !!options?.refetchOnReconnect,
+  }, listPoll.run);
+  useRefetchEvents(store, instancePollKey, getRefetchEventOptions(store, options), instancePoll);
 
   // Pagination — stable refs, no extra re-renders when unchanged
   const pagination = store((s) => s.pagination);
   const setPagination = store((s) => s.setPagination);
+  const loadMorePages = useCallback(() => loadMore(store), []);
 
   // Custom state
   const customState = store((s) => s.state);
@@ -161,7 +203,7 @@ export function useCrud<
     ...includeList ? { list } : {},
     ...includeRecord ? { record } : {},
     ...'get' in store.config.actions ? { instance } : {},
-    ...hasPagination ? { pagination, setPagination } : {},
+    ...hasPagination ? { pagination, setPagination, loadMore: loadMorePages, hasMore: hasMorePages(pagination, store.config.pagination) } : {},
     ...hasState ? { state: customState, patchState: setCustomState } : {},
     ...selectConfig ? {
       selected: selectConfig === 'single' ? selectBase.instance : selectBase.instances,
@@ -0,0 +1,23 @@
+import type { CrudStore, CrudState } from "./createStoreRegistry";
+import type { Config, ValidatedConfig, FiltersOf, Ordering, OrderingInput } from "./config";
+
+export type FiltersResult<C> = {
+  filters: FiltersOf<C>;
+  ordering: Ordering | null;
+  setFilter: <N extends keyof FiltersOf<C> & string>(name: N, value: FiltersOf<C>[N]) => void;
+  clearFilters: () => void;
+  setOrdering: (ordering: OrderingInput | null) => void;
+};
+
+export function useFilters<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>
+): FiltersResult<C> {
+  const filters = store((s) => s.filters);
+  const ordering = store((s) => s.ordering);
+  const { setFilter, clearFilters, setOrdering } = store.getState() as CrudState<T, any>;
+  return { filters: filters as FiltersOf<C>, ordering, setFilter, clearFilters, setOrdering };
+}
@@ -1,19 +1,32 @@
 import { useEffect, useCallback } from "react";
 import { defaultLoadingState } from "./loadingState";
+import { isOlderThan, getCacheTimes, getInstanceFetchedAt } from "./cache";
+import { holdRequest } from "./concurrency";
+import { usePolling, getInstancePoll, getRefetchInterval } from "./polling";
+import { useRefetchEvents, getRefetchEventOptions, type RefetchEventOptions } from "./refetchEvents";
 import type { LoadingStateValue } from "./loadingState";
+import type { CacheStatus } from "./cache";
 import type { CrudStore } from "./createStoreRegistry";
 import type { Config, ValidatedConfig } from "./config";
 import { useActions, type ActionFunctions } from "./useActions";
 
-export type GetFunction = (() => void) & LoadingStateValue;
+export type GetFunction = (() => void) & LoadingStateValue & CacheStatus;
+
+export type GetOptions = RefetchEventOptions & {
+  // Milliseconds between fetches while mounted, overrides the action's
+  // refetchInterval
+  refetchInterval?: number;
+};
 
 export function useGet<T, K extends string, C extends Config<K, T>>(
   store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
   id?: number | string | null,
+  options?: GetOptions,
 ) {
   const detailKey = store.config.detailKey;
   const useDetailKeyScan = store.config.detailKey !== store.config.id;
   const stringId = id != null ? String(id) : null;
+  const { staleTime, cacheTime } = getCacheTimes(store, 'get');
 
   const findByDetailKey = (data: Map<string, T> | null, value: any): T | null => {
     if (!data || value == null) return null;
@@ -27,35 +40,62 @@ export function useGet<T, K extends string, C extends Config<K, T>>(
     return found;
   };
 
-  const instance = store((s) => {
-    if (useDetailKeyScan) return findByDetailKey(s.data, id);
-    return s.data && stringId != null ? s.data.get(stringId) ?? null : null;
-  });
+  const findInstance = (data: Map<string, T> | null) => {
+    if (useDetailKeyScan) return findByDetailKey(data, id);
+    return data && stringId != null ? data.get(stringId) ?? null : null;
+  };
+
+  const storedInstance = store((s) => findInstance(s.data));
+  const isInvalidated = store((s) => !!storedInstance
+    && s.invalidated.ids.includes(String((storedInstance as any)[store.config.id]))
+  );
+  const fetchedAt = store((s) => storedInstance
+    ? getInstanceFetchedAt(s, String((storedInstance as any)[store.config.id]))
+    : null
+  );
+
+  // An instance older than cacheTime is not shown while it is fetched again
+  const instance = storedInstance && !isOlderThan(fetchedAt, cacheTime) ? storedInstance : null;
 
   const actions = useActions(store);
   const actionGet = (actions as { get?: ActionFunctions<T>['get'] }).get;
 
   const get = useCallback(() => {
     if (stringId == null || !actionGet) return;
-    actionGet({ [detailKey]: id });
+    // Failures end up in the loading state
+    actionGet({ [detailKey]: id }).catch(() => undefined);
   }, [stringId, actionGet, id, detailKey]);
 
   // Attach loading state from the action
-  Object.assign(get, actionGet ?? defaultLoadingState);
+  Object.assign(get, actionGet ?? defaultLoadingState, {
+    isStale: !!storedInstance && (isInvalidated || isOlderThan(fetchedAt, staleTime)),
+    isRefetching: !!actionGet?.isLoading && !!instance,
+  });
 
-  // Auto-fetch on mount / id change when instance is not in store.
+  // Auto-fetch on mount / id change when instance is not in store, or when it
+  // is stale or invalidated.
   useEffect(() => {
     if (stringId == null || !actionGet) return;
     const state = store.getState();
-    if (useDetailKeyScan) {
-      if (findByDetailKey(state.data, id)) return;
-    } else {
-      if (state.data?.get(stringId)) return;
+    const existing = findInstance(state.data);
+    if (existing) {
+      const existingFetchedAt = getInstanceFetchedAt(state, String((existing as any)[store.config.id]));
+      if (!isInvalidated && !isOlderThan(existingFetchedAt, Math.min(staleTime, cacheTime))) return;
     }
-    if (state.loadingState['get']?.isLoading) return;
+    // Keep a fetch another caller started alive while mounted
+    if (state.loadingState['get']?.isLoading) return holdRequest(store, 'get', String(id));
     if (state.loadingState['get']?.error) return;
-    actionGet({ [detailKey]: id });
-  }, [stringId, actionGet, store, id, detailKey]);
+    // Aborted when unmounted or when the id changes, unless other callers
+    // still wait for it
+    const controller = new AbortController();
+    actionGet({ [detailKey]: id }, { signal: controller.signal }).catch(() => undefined);
+    return () => controller.abort();
+  }, [stringId, actionGet, store, id, detailKey, isInvalidated]);
+
+  const pollKey = id != null && actionGet ? getInstancePoll(store, id).key : null;
+  const poll = () => getInstancePoll(store, id!).run();
+  usePolling(store, pollKey, options?.refetchInterval ?? getRefetchInterval(store, 'get'), poll);
+  useRefetchEvents(store, pollKey, getRefetchEventOptions(store, options), poll);
 
   return [instance, get] as [T | null, GetFunction];
 }
@@ -1,19 +1,55 @@
 import { useEffect, useCallback, useMemo } from "react";
 import { defaultLoadingState } from "./loadingState";
+import { isOlderThan, getCacheTimes } from "./cache";
+import { getQueryKey, getQueryInstances } from "./queries";
+import { holdRequest } from "./concurrency";
+import { usePolling, getListPoll, getRefetchInterval } from "./polling";
+import { useRefetchEvents, getRefetchEventOptions, type RefetchEventOptions } from "./refetchEvents";
 import type { LoadingStateValue } from "./loadingState";
+import type { CacheStatus } from "./cache";
 import type { CrudStore } from "./createStoreRegistry";
 import type { Config, ValidatedConfig } from "./config";
 import { useActions, type ActionFunctions } from "./useActions";
 
-export type GetListFunction = (() => void) & LoadingStateValue;
+export type GetListFunction = (() => void) & LoadingStateValue & CacheStatus;
+
+export type GetListOptions = RefetchEventOptions & {
+  // Fetch a separate list with these params, next to the store's main list
+  params?: any;
+  // Milliseconds between fetches while mounted, overrides the action's
+  // refetchInterval
+  refetchInterval?: number;
+};
 
 export function useGetList<T, K extends string, C extends Config<K, T>>(
-  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  options?: GetListOptions,
 ) {
+  const { staleTime, cacheTime } = getCacheTimes(store, 'getList');
+  const queryKey = options?.params !== undefined ? getQueryKey(options.params) : null;
+  // Params only change when their key does
+  const params = useMemo(() => options?.params, [queryKey]);
+
   const rawData = store((s) => s.data);
+  const listIds = store((s) => s.listIds);
+  const storeFetchedAt = store((s) => s.listFetchedAt);
+  const query = store((s) => queryKey !== null ? s.queries[queryKey] : undefined);
+  const isInvalidated = store((s) => queryKey !== null
+    ? s.invalidated.queries.includes(queryKey)
+    : s.invalidated.list
+  );
+  const ids = queryKey !== null ? query?.ids ?? null : listIds;
+  const hasData = !!ids;
+  const listFetchedAt = queryKey !== null ? query?.fetchedAt ?? null : storeFetchedAt;
+
+  // Data older than cacheTime is not shown while it is fetched again
+  const isExpired = hasData && isOlderThan(listFetchedAt, cacheTime);
   const list = useMemo(
-    () => rawData ? Array.from(rawData.values()) : null,
-    [rawData]
+    () => {
+      if (isExpired) return null;
+      return getQueryInstances(rawData, ids);
+    },
+    [rawData, ids, isExpired]
   );
 
   const actions = useActions(store);
@@ -21,21 +57,57 @@ export function useGetList<T, K extends string, C extends Config<K, T>>(
 
   const getList = useCallback(() => {
     if (!actionGetList) return;
-    actionGetList();
-  }, [actionGetList]);
+    // Failures end up in the loading state
+    (queryKey !== null ? actionGetList({ params, queryKey }) : actionGetList()).catch(() => undefined);
+  }, [actionGetList, queryKey]);
 
-  // Attach loading state from the action
-  Object.assign(getList, actionGetList ?? defaultLoadingState);
+  // Attach loading state from the action, or from the query
+  const loadingState = queryKey !== null
+    ? query?.loadingState ?? defaultLoadingState
+    : actionGetList ?? defaultLoadingState;
+  Object.assign(getList, loadingState, {
+    isStale: hasData && (isInvalidated || isOlderThan(listFetchedAt, staleTime)),
+    isRefetching: !!loadingState.isLoading && !!list,
+  });
 
-  // Auto-fetch on mount when no data in store
+  // Auto-fetch on mount (or when the params change) when there is no data
+  // yet, or when it is stale or invalidated
   useEffect(() => {
     if (!actionGetList) return;
     const state = store.getState();
-    if (state.data) return;
-    if (state.loadingState['getList']?.isLoading) return;
-    if (state.loadingState['getList']?.error) return;
-    getList();
-  }, [getList]);
+    const query = queryKey !== null ? state.queries[queryKey] : undefined;
+    const current = queryKey !== null
+      ? { hasData: !!query?.ids, fetchedAt: query?.fetchedAt, loadingState: query?.loadingState }
+      : { hasData: !!state.listIds, fetchedAt: state.listFetchedAt, loadingState: state.loadingState['getList'] };
+    if (
+      current.hasData
+      && !isInvalidated
+      && !isOlderThan(current.fetchedAt, Math.min(staleTime, cacheTime))
+    ) return;
+    // Keep a fetch another caller started alive while mounted
+    if (current.loadingState?.isLoading) {
+      return holdRequest(store, queryKey !== null ? `getList:${queryKey}` : 'getList');
+    }
+    if (current.loadingState?.error) return;
+    // Aborted when unmounted, or when the params change, unless other
+    // callers still wait for it
+    const controller = new AbortController();
+    actionGetList(queryKey !== null
+      ? { params, queryKey, signal: controller.signal }
+      : { signal: controller.signal }
+    ).catch(() => undefined);
+    return () => controller.abort();
+  }, [getList, isInvalidated]);
+
+  // Mounted hooks with the same list share one timer
+  const poll = getListPoll(store, params);
+  usePolling(
+    store,
+    actionGetList ? poll.key : null,
+    options?.refetchInterval ?? getRefetchInterval(store, 'getList'),
+    poll.run,
+  );
+  useRefetchEvents(store, actionGetList ? poll.key : null, getRefetchEventOptions(store, options), poll.run);
 
   return [list, getList] as [T[] | null, GetListFunction];
 }
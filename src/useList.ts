@@ -1,4 +1,5 @@
 import { useMemo } from "react";
+import { getQueryInstances } from "./queries";
 
 import type { CrudStore } from "./createStoreRegistry";
 import type { Config, ValidatedConfig } from "./config";
@@ -11,5 +12,6 @@ export function useList<
   store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>
 ): T[] | null {
   const data = store((s) => s.data);
-  return useMemo(() => data ? Array.from(data.values()) : null, [data]);
+  const listIds = store((s) => s.listIds);
+  return useMemo(() => getQueryInstances(data, listIds), [data, listIds]);
 }
@@ -1,14 +1,242 @@
-import type { CrudStore } from "./createStoreRegistry";
-import type { Config, ValidatedConfig, Pagination } from "./config";
+import { useCallback, useMemo } from "react";
+import { createListQuery, getListQuery, getQueryKey } from "./queries";
+import { getLoadingState } from "./loadingState";
+import { getAction } from "./useActions";
+import { getPendingRequests } from "./concurrency";
+import type { CrudStore, CrudState } from "./createStoreRegistry";
+import type { Config, ValidatedConfig, Pagination, PaginationConfig } from "./config";
+
+export type PaginationOptions = {
+  // Pagination of the list fetched with these params (see useGetList)
+  params?: any;
+  // 'auto': the page helpers fetch the page they move to (default)
+  // 'manual': they only update the pagination
+  refetch?: 'auto' | 'manual';
+};
+
+export type PaginationResult = {
+  pagination: Pagination | null;
+  setPagination: (partial: Partial<Pagination>) => void;
+  loadMore: () => Promise<void>;
+  hasMore: boolean;
+  next: () => Promise<void>;
+  previous: () => Promise<void>;
+  hasNext: boolean;
+  hasPrevious: boolean;
+  // Page helpers for offset pagination. Pages are numbered from 1.
+  page: number;
+  pageCount: number;
+  goToPage: (page: number) => Promise<void>;
+  nextPage: () => Promise<void>;
+  prevPage: () => Promise<void>;
+  setPageSize: (limit: number) => Promise<void>;
+};
+
+export const getPage = (pagination: Pagination | null) =>
+  pagination && pagination.limit > 0 ? Math.floor(pagination.offset / pagination.limit) + 1 : 1;
+
+// At least 1, so an empty list is page 1 of 1
+export const getPageCount = (pagination: Pagination | null) =>
+  pagination && pagination.limit > 0 ? Math.max(1, Math.ceil(pagination.count / pagination.limit)) : 1;
+
+// Whether the server has items after the current page
+export const hasMorePages = (pagination: Pagination | null, config?: PaginationConfig | null) => {
+  if (!pagination) return false;
+  if (config?.type === 'cursor') return pagination.nextCursor != null;
+  return pagination.offset + pagination.limit < pagination.count;
+};
+
+// Whether there is a page before the current one to go back to. Appended
+// lists only go forward.
+export const hasPreviousPages = (pagination: Pagination | null, config?: PaginationConfig | null) => {
+  if (!pagination || config?.mode === 'append') return false;
+  if (config?.type === 'cursor') return pagination.prevCursor != null;
+  return pagination.offset > 0;
+};
+
+// Moves the pagination by `getUpdate` and fetches that page, unless `refetch`
+// is false. Does nothing while the list is loading or when there is no page
+// to move to; the pagination is restored when the request fails.
+async function fetchPage<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  options: PaginationOptions | undefined,
+  getUpdate: (pagination: Pagination) => Partial<Pagination> | null,
+  refetch: boolean = true,
+): Promise<void> {
+  if (refetch && !('getList' in store.config.actions)) return;
+  const queryKey = options?.params !== undefined ? getQueryKey(options.params) : null;
+  const getState = () => queryKey !== null
+    ? getListQuery(store, queryKey)
+    : { pagination: (store.getState() as CrudState<T, any>).pagination, loadingState: getLoadingState(store, 'getList') };
+  const setPagination = (partial: Partial<Pagination>) => {
+    const { pagination } = getState();
+    if (!pagination) return;
+    if (queryKey !== null) {
+      store.getState().setQuery(queryKey, { pagination: { ...pagination, ...partial } });
+    } else {
+      (store.getState() as CrudState<T, any>).setPagination(partial);
+    }
+  };
+
+  const { pagination, loadingState } = getState();
+  if (!pagination || (refetch && loadingState.isLoading)) return;
+  const update = getUpdate(pagination);
+  if (!update) return;
+  setPagination(update);
+  if (!refetch) return;
+  const getList = getAction(store, 'getList');
+  await (queryKey !== null ? getList({ params: options!.params, queryKey }) : getList()).catch(() => undefined);
+  if (getState().loadingState.error) {
+    setPagination((Object.keys(update) as (keyof Pagination)[]).reduce(
+      (o, key) => ({ ...o, [key]: pagination[key] }),
+      {} as Partial<Pagination>
+    ));
+  }
+}
+
+// Fetches the page after the current one. With `mode: 'append'` its items are
+// added to the list.
+export function loadMore<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  options?: PaginationOptions,
+): Promise<void> {
+  const config = store.config.pagination;
+  return fetchPage(store, options, (pagination) => {
+    if (!hasMorePages(pagination, config)) return null;
+    return config?.type === 'cursor'
+      ? { cursor: pagination.nextCursor }
+      : { offset: pagination.offset + pagination.limit };
+  });
+}
+
+// Fetches the page before the current one
+export function loadPrevious<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  options?: PaginationOptions,
+): Promise<void> {
+  const config = store.config.pagination;
+  return fetchPage(store, options, (pagination) => {
+    if (!hasPreviousPages(pagination, config)) return null;
+    return config?.type === 'cursor'
+      ? { cursor: pagination.prevCursor }
+      : { offset: Math.max(0, pagination.offset - pagination.limit) };
+  });
+}
 
 export function usePagination<
   T,
   K extends string,
   C extends Config<K, T>
 >(
-  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>
-): { pagination: Pagination | null; setPagination: (partial: Partial<Pagination>) => void } {
-  const pagination = store((s) => s.pagination);
-  const setPagination = store((s) => s.setPagination);
-  return { pagination, setPagination };
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  options?: PaginationOptions,
+): PaginationResult {
+  const queryKey = options?.params !== undefined ? getQueryKey(options.params) : null;
+  // Params only change when their key does
+  const params = useMemo(() => options?.params, [queryKey]);
+  const storePagination = store((s) => s.pagination);
+  const storeSetPagination = store((s) => s.setPagination);
+  const queryPagination = store((s) => queryKey !== null ? s.queries[queryKey]?.pagination : undefined);
+  const initialQueryPagination = useMemo(() => createListQuery(store.config.pagination).pagination, []);
+
+  const setQueryPagination = useCallback((partial: Partial<Pagination>) => {
+    if (queryKey === null) return;
+    const { pagination } = getListQuery(store, queryKey);
+    if (!pagination) return;
+    store.getState().setQuery(queryKey, { pagination: { ...pagination, ...partial } });
+  }, [queryKey]);
+
+  const next = useCallback(
+    () => loadMore(store, queryKey !== null ? { params } : undefined),
+    [queryKey]
+  );
+  const previous = useCallback(
+    () => loadPrevious(store, queryKey !== null ? { params } : undefined),
+    [queryKey]
+  );
+
+  // Page helpers
+  const refetch = options?.refetch !== 'manual';
+  const movePage = useCallback(
+    (getUpdate: (pagination: Pagination) => Partial<Pagination> | null) =>
+      fetchPage(store, queryKey !== null ? { params } : undefined, getUpdate, refetch),
+    [queryKey, refetch]
+  );
+  const goToPage = useCallback((page: number) => movePage((p) => {
+    if (p.limit <= 0) return null;
+    const target = Math.min(Math.max(1, page), getPageCount(p));
+    const offset = (target - 1) * p.limit;
+    return offset !== p.offset ? { offset } : null;
+  }), [movePage]);
+  const nextPage = useCallback(() => movePage((p) =>
+    p.limit > 0 && p.offset + p.limit < p.count ? { offset: p.offset + p.limit } : null
+  ), [movePage]);
+  const prevPage = useCallback(() => movePage((p) =>
+    p.offset > 0 ? { offset: Math.max(0, p.offset - p.limit) } : null
+  ), [movePage]);
+  // Keeps the first item of the current page in view
+  const setPageSize = useCallback((limit: number) => movePage((p) =>
+    limit > 0 && limit !== p.limit ? { limit, offset: Math.floor(p.offset / limit) * limit } : null
+  ), [movePage]);
+
+  // Fetches the list again when the offset or limit change, like the page
+  // helpers. Other fields are only set, and so is everything without a
+  // getList action. While the list is loading, the new page is fetched once
+  // that request is done, as it was sent for the previous one.
+  const setPagination = useCallback((partial: Partial<Pagination>) => {
+    const { pagination: current, loadingState } = queryKey !== null
+      ? getListQuery(store, queryKey)
+      : { pagination: (store.getState() as CrudState<T, any>).pagination, loadingState: getLoadingState(store, 'getList') };
+    const movesPage = !!current && (['offset', 'limit'] as const).some(
+      (key) => partial[key] !== undefined && partial[key] !== current[key]
+    );
+    const fetchesPage = movesPage && refetch && 'getList' in store.config.actions;
+    if (fetchesPage && !loadingState.isLoading) {
+      movePage(() => partial);
+      return;
+    }
+    if (queryKey !== null) {
+      setQueryPagination(partial);
+    } else {
+      storeSetPagination(partial);
+    }
+    if (!fetchesPage) return;
+    const pending = getPendingRequests(store, queryKey !== null ? `getList:${queryKey}` : 'getList');
+    Promise.all(pending.map((request) => request.promise.catch(() => undefined))).then(() => {
+      const getList = getAction(store, 'getList');
+      // Failures end up in the loading state
+      return (queryKey !== null ? getList({ params, queryKey }) : getList()).catch(() => undefined);
+    });
+  }, [movePage, setQueryPagination, storeSetPagination]);
+
+  const pagination = queryKey !== null ? queryPagination ?? initialQueryPagination : storePagination;
+  const hasNext = hasMorePages(pagination, store.config.pagination);
+  return {
+    pagination,
+    setPagination,
+    loadMore: next,
+    hasMore: hasNext,
+    next,
+    previous,
+    hasNext,
+    hasPrevious: hasPreviousPages(pagination, store.config.pagination),
+    page: getPage(pagination),
+    pageCount: getPageCount(pagination),
+    goToPage,
+    nextPage,
+    prevPage,
+    setPageSize,
+  };
 }
@@ -0,0 +1,169 @@
+import { useRef, useSyncExternalStore } from "react";
+import { stableStringify } from "./queries";
+import type { CrudStore } from "./createStoreRegistry";
+import type { Config, ValidatedConfig } from "./config";
+
+export type Operators<V> = {
+  eq?: V;
+  ne?: V;
+  in?: V[];
+  nin?: V[];
+  // Substring of a string, or item of an array
+  contains?: any;
+  gt?: V;
+  gte?: V;
+  lt?: V;
+  lte?: V;
+};
+
+// A predicate, or the value (or operators) each field has to match
+export type Where<T> =
+  | ((instance: T) => boolean)
+  | { [F in keyof T]?: T[F] | Operators<T[F]> };
+
+// Field name, with a leading '-' for descending
+export type SortKey<T> = (keyof T & string) | `-${keyof T & string}`;
+
+export type SortBy<T> = SortKey<T> | SortKey<T>[] | ((a: T, b: T) => number);
+
+export type QueryOptions<T> = {
+  where?: Where<T>;
+  sortBy?: SortBy<T>;
+  limit?: number;
+  offset?: number;
+};
+
+const operators: { [O in keyof Operators<any>]-?: (value: any, operand: any) => boolean } = {
+  eq: (value, operand) => value === operand,
+  ne: (value, operand) => value !== operand,
+  in: (value, operand) => operand.includes(value),
+  nin: (value, operand) => !operand.includes(value),
+  contains: (value, operand) => typeof value === 'string' || Array.isArray(value)
+    ? value.includes(operand)
+    : false,
+  gt: (value, operand) => value != null && value > operand,
+  gte: (value, operand) => value != null && value >= operand,
+  lt: (value, operand) => value != null && value < operand,
+  lte: (value, operand) => value != null && value <= operand,
+};
+
+const isOperators = (condition: any): condition is Operators<any> =>
+  !!condition
+  && typeof condition === 'object'
+  && !Array.isArray(condition)
+  && !(condition instanceof Date)
+  && Object.keys(condition).length > 0
+  && Object.keys(condition).every((key) => key in operators);
+
+const matches = <T>(instance: T, where: Where<T>) => {
+  if (typeof where === 'function') return where(instance);
+  return Object.entries(where).every(([field, condition]) => {
+    const value = (instance as any)[field];
+    if (!isOperators(condition)) return value === condition;
+    return (Object.entries(condition) as [keyof Operators<any>, any][])
+      .every(([operator, operand]) => operators[operator](value, operand));
+  });
+};
+
+// Null and undefined sort last in either direction
+const compareValues = (a: any, b: any, direction: number) => {
+  if (a == null || b == null) return a == null ? (b == null ? 0 : 1) : -1;
+  return (a < b ? -1 : a > b ? 1 : 0) * direction;
+};
+
+const getComparator = <T>(sortBy: SortBy<T>): ((a: T, b: T) => number) => {
+  if (typeof sortBy === 'function') return sortBy;
+  const keys = (Array.isArray(sortBy) ? sortBy : [sortBy]).map((key: string) => key.startsWith('-')
+    ? { field: key.slice(1), direction: -1 }
+    : { field: key, direction: 1 }
+  );
+  return (a, b) => {
+    for (const { field, direction } of keys) {
+      const result = compareValues((a as any)[field], (b as any)[field], direction);
+      if (result) return result;
+    }
+    return 0;
+  };
+};
+
+export function runQuery<T>(data: Map<string, T> | null, options: QueryOptions<T>): T[] | null {
+  if (!data) return null;
+  const { where, sortBy, limit, offset = 0 } = options;
+  let result = Array.from(data.values());
+  if (where) result = result.filter((instance) => matches(instance, where));
+  // Array.prototype.sort is stable, so equal items keep their store order
+  if (sortBy) result.sort(getComparator(sortBy));
+  if (offset || limit != null) result = result.slice(offset, limit != null ? offset + limit : undefined);
+  return result;
+}
+
+const isSameResult = <T>(a: T[] | null, b: T[] | null) =>
+  a === b || (!!a && !!b && a.length === b.length && a.every((instance, i) => instance === b[i]));
+
+// Results of queries without functions, per store and query, shared by every
+// component running the same query
+type CachedResult = { data: Map<string, any> | null; result: any[] | null };
+const sharedResults = new WeakMap<object, Map<string, CachedResult>>();
+
+const getSharedResult = <T>(store: object, key: string, data: Map<string, T> | null, options: QueryOptions<T>) => {
+  let results = sharedResults.get(store);
+  if (!results) {
+    results = new Map();
+    sharedResults.set(store, results);
+  }
+  const cached = results.get(key);
+  if (cached && cached.data === data) return cached.result as T[] | null;
+  const result = runQuery(data, options);
+  // Keep the previous array when the instances didn't change
+  const next = cached && isSameResult(cached.result, result) ? cached.result : result;
+  results.set(key, { data, result: next });
+  return next as T[] | null;
+};
+
+const hasFunctions = (options: QueryOptions<any>) =>
+  typeof options.where === 'function' || typeof options.sortBy === 'function';
+
+// Filters, sorts and slices the store's data. Only re-renders when the
+// resulting list of instances changes.
+export function useQuery<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  options: QueryOptions<T> = {},
+): T[] | null {
+  const key = hasFunctions(options) ? null : stableStringify(options);
+  const latest = useRef<{ options: QueryOptions<T>; key: string | null }>({ options, key });
+  latest.current = { options, key };
+  const local = useRef<{ data: Map<string, T> | null; options: QueryOptions<T> | null; result: T[] | null }>({
+    data: null,
+    options: null,
+    result: null,
+  });
+
+  const getSnapshot = () => {
+    const data = store.getState().data;
+    const { options: currentOptions, key: currentKey } = latest.current;
+    let result: T[] | null;
+    if (currentKey !== null) {
+      result = getSharedResult(store, currentKey, data, currentOptions);
+    } else {
+      // Predicates and comparators are compared by identity
+      const previous = local.current;
+      const sameOptions = !!previous.options
+        && previous.options.where === currentOptions.where
+        && previous.options.sortBy === currentOptions.sortBy
+        && previous.options.limit === currentOptions.limit
+        && previous.options.offset === currentOptions.offset;
+      result = sameOptions && previous.data === data ? previous.result : runQuery(data, currentOptions);
+    }
+    if (isSameResult(local.current.result, result)) {
+      result = local.current.result;
+    }
+    local.current = { data, options: currentOptions, result };
+    return result;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSnapshot);
+}
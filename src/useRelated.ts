@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from "react";
+import { getAction } from "./useActions";
+import type { CrudStore } from "./createStoreRegistry";
+import type { Config, ValidatedConfig, Relation } from "./config";
+
+export type RelatedResult<R, Related = any> = R extends { type: 'hasMany' }
+  ? Related[]
+  : Related | null;
+
+// Ids of the related instances the instance itself points to. Null when the
+// relation is found by scanning the related store (hasMany with foreignKey).
+const getRelatedIds = (relation: Relation, instance: Record<string, any> | null | undefined): string[] | null => {
+  if (relation.type === 'belongsTo') {
+    const value = instance?.[relation.foreignKey];
+    return value != null ? [String(value)] : [];
+  }
+  if (relation.localKey) {
+    const values = instance?.[relation.localKey];
+    return Array.isArray(values) ? values.map(String) : [];
+  }
+  return null;
+};
+
+// Resolves a relation declared in `config.relations` from the related store's
+// data. Related instances referenced by id that are missing are fetched with
+// the related store's `get` action.
+export function useRelated<
+  T,
+  K extends string,
+  C extends Config<K, T>,
+  N extends keyof NonNullable<C['relations']> & string
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>,
+  instance: T | null | undefined,
+  name: N,
+): RelatedResult<NonNullable<C['relations']>[N]> {
+  const relation = store.config.relations[name] as Relation | undefined;
+  const relatedStore = relation ? store.registry.getStore(relation.key) : undefined;
+
+  // Looked up on every render: the related store has to be created before the
+  // relation can be resolved, and a store created later is only picked up when
+  // the component renders again
+  const subscribe = useCallback(
+    (onChange: () => void) => relatedStore ? relatedStore.subscribe(onChange) : () => {},
+    [relatedStore]
+  );
+  const relatedData = useSyncExternalStore(
+    subscribe,
+    () => relatedStore ? relatedStore.getState().data : null
+  );
+
+  const source = instance as Record<string, any> | null | undefined;
+  const ids = relation ? getRelatedIds(relation, source) : [];
+  const idsKey = ids ? ids.join('\u0000') : null;
+  const ownId = source?.[store.config.id];
+
+  const related = useMemo(() => {
+    if (!relation) return null;
+    if (ids) {
+      const found = ids.map((id) => relatedData?.get(id)).filter((r) => r !== undefined);
+      return relation.type === 'belongsTo' ? found[0] ?? null : found;
+    }
+    if (!relatedData || ownId == null) return [];
+    const foreignKey = (relation as { foreignKey: string }).foreignKey;
+    return Array.from(relatedData.values()).filter(
+      (r: any) => r[foreignKey] != null && String(r[foreignKey]) === String(ownId)
+    );
+  }, [relation, relatedData, idsKey, ownId]);
+
+  // Fetch missing instances. The default 'drop' concurrency only shares a get
+  // for the same id, so all of them are fetched side by side.
+  useEffect(() => {
+    if (!relatedStore || !ids || !('get' in relatedStore.config.actions)) return;
+    const state = relatedStore.getState();
+    const missing = ids.filter((id) => {
+      if (state.data?.has(id)) return false;
+      const loadingState = state.instanceLoadingState['get']?.[id];
+      return !loadingState?.isLoading && !loadingState?.error;
+    });
+    if (!missing.length) return;
+    const get = getAction(relatedStore, 'get');
+    // Failures end up in the related store's loading state
+    missing.forEach((id) => get({ [relatedStore.config.detailKey]: id }).catch(() => undefined));
+  }, [relatedStore, idsKey]);
+
+  return related as RelatedResult<NonNullable<C['relations']>[N]>;
+}
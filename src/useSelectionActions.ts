@@ -0,0 +1,107 @@
+import { useCallback, useMemo, useState } from "react";
+import { getBulkAction, getBulkCustomAction } from "./bulk";
+import type { BulkFuncProps, BulkProgress, BulkResult } from "./bulk";
+import type { CrudStore, CrudState } from "./createStoreRegistry";
+import type { Config, ValidatedConfig } from "./config";
+
+export type SelectionActionsResult<T, C extends Config<any, T>> = {
+  // Deletes the selected instances; the ones that failed stay selected
+  deleteSelected: (args?: BulkFuncProps<T>) => Promise<BulkResult<T>>;
+  // Applies the same patch to every selected instance
+  updateSelected: (patch: Partial<T>, args?: BulkFuncProps<T>) => Promise<BulkResult<T>>;
+  // Calls a custom action once per selected instance
+  runOnSelected: (
+    action: Extract<keyof C['customActions'], string>,
+    args?: BulkFuncProps<T> & { limit?: number },
+  ) => Promise<BulkResult<T>>;
+  // Of the last run started by this hook
+  progress: BulkProgress;
+  isRunning: boolean;
+};
+
+const idleProgress: BulkProgress = { done: 0, total: 0, failed: 0 };
+
+// Runs actions on the instances in selectedIds, through bulkDelete and
+// bulkUpdate when configured and one request per instance otherwise
+export function useSelectionActions<
+  T,
+  K extends string,
+  C extends Config<K, T>
+>(
+  store: CrudStore<T, K, C, ValidatedConfig<K, T, C>>
+): SelectionActionsResult<T, C> {
+  const { id: idKey } = store.config;
+  // Internal full-state access — selectedIds is conditional on CrudStore but
+  // always exists on the underlying Zustand store
+  const _getState = store.getState as () => CrudState<T, any>;
+  const [progress, setProgress] = useState<BulkProgress>(idleProgress);
+
+  const bulkDelete = useMemo(() => getBulkAction(store, 'bulkDelete'), [store]);
+  const bulkUpdate = useMemo(() => getBulkAction(store, 'bulkUpdate'), [store]);
+
+  // Ids missing from data are sent as instances with only their id. As
+  // selectedIds holds strings, the id gets the type of the other instances'.
+  const getSelected = useCallback((): Partial<T>[] => {
+    const { data, selectedIds } = _getState();
+    const sample = data?.values().next().value as any;
+    const toIdValue = (id: string) => typeof sample?.[idKey] === 'number' && id !== '' && !isNaN(Number(id))
+      ? Number(id)
+      : id;
+    return selectedIds.map((id) => data?.get(id) ?? { [idKey]: toIdValue(id) } as Partial<T>);
+  }, [store, idKey]);
+
+  const run = useCallback(
+    (
+      action: (items: Partial<T>[], args?: BulkFuncProps<T>) => Promise<BulkResult<T>>,
+      items: Partial<T>[],
+      args: BulkFuncProps<T> | undefined,
+    ) => {
+      setProgress({ done: 0, total: items.length, failed: 0 });
+      return action(items, {
+        ...args,
+        onProgress: (value) => {
+          setProgress(value);
+          args?.onProgress?.(value);
+        },
+      }).then((result) => {
+        // Also settles runs that were aborted before they started
+        const done = result.succeeded.length + result.failed.length;
+        setProgress({ done, total: done, failed: result.failed.length });
+        return result;
+      });
+    },
+    []
+  );
+
+  const deleteSelected = useCallback(
+    (args?: BulkFuncProps<T>) => run(bulkDelete, getSelected(), args),
+    [run, bulkDelete, getSelected]
+  );
+
+  const updateSelected = useCallback(
+    (patch: Partial<T>, args?: BulkFuncProps<T>) => {
+      const { detailKey } = store.config;
+      const items = getSelected().map((instance) => ({
+        [idKey]: (instance as any)[idKey],
+        [detailKey]: (instance as any)[detailKey],
+        ...patch,
+      } as Partial<T>));
+      return run(bulkUpdate, items, args);
+    },
+    [run, bulkUpdate, getSelected]
+  );
+
+  const runOnSelected = useCallback(
+    (action: string, { limit, ...args }: BulkFuncProps<T> & { limit?: number } = {}) =>
+      run(getBulkCustomAction(store, action as keyof C['customActions'] & string, limit), getSelected(), args),
+    [run, getSelected]
+  );
+
+  return {
+    deleteSelected,
+    updateSelected,
+    runOnSelected,
+    progress,
+    isRunning: progress.done < progress.total,
+  };
+}